@@ -0,0 +1,257 @@
+-- CreateEnum
+CREATE TYPE "ConversationState" AS ENUM ('IDLE', 'COLLECTING_CRITERIA', 'CONFIRMING', 'ACTIVE', 'PAUSED');
+
+-- CreateEnum
+CREATE TYPE "PropertyType" AS ENUM ('HOUSE', 'APARTMENT', 'BOTH');
+
+-- CreateEnum
+CREATE TYPE "Source" AS ENUM ('FACEBOOK', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "Direction" AS ENUM ('INCOMING', 'OUTGOING');
+
+-- CreateEnum
+CREATE TYPE "MessageType" AS ENUM ('TEXT', 'IMAGE', 'VIDEO', 'DOCUMENT', 'TEMPLATE', 'BUTTON');
+
+-- CreateEnum
+CREATE TYPE "NotificationType" AS ENUM ('LISTING_MATCH', 'SYSTEM', 'ADMIN', 'ERROR');
+
+-- CreateTable
+CREATE TABLE "users" (
+    "id" TEXT NOT NULL,
+    "whatsappNumber" TEXT NOT NULL,
+    "name" TEXT,
+    "email" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "isAdmin" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "lastInteraction" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "conversationState" "ConversationState" NOT NULL DEFAULT 'IDLE',
+
+    CONSTRAINT "users_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "property_criteria" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "propertyType" "PropertyType" NOT NULL DEFAULT 'BOTH',
+    "minPrice" INTEGER,
+    "maxPrice" INTEGER,
+    "minSurface" INTEGER,
+    "maxSurface" INTEGER,
+    "minRooms" INTEGER,
+    "maxRooms" INTEGER,
+    "locations" TEXT[],
+    "furnished" BOOLEAN,
+    "urgent" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "property_criteria_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "scraped_listings" (
+    "id" TEXT NOT NULL,
+    "source" "Source" NOT NULL DEFAULT 'FACEBOOK',
+    "groupId" TEXT,
+    "groupName" TEXT,
+    "postId" TEXT NOT NULL,
+    "postUrl" TEXT,
+    "authorName" TEXT,
+    "authorId" TEXT,
+    "originalText" TEXT NOT NULL,
+    "extractedData" JSONB,
+    "aiEnriched" BOOLEAN NOT NULL DEFAULT false,
+    "confidenceScore" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "title" TEXT,
+    "price" INTEGER,
+    "location" TEXT,
+    "surface" INTEGER,
+    "rooms" INTEGER,
+    "propertyType" "PropertyType",
+    "contact" TEXT,
+    "images" TEXT[],
+    "furnished" BOOLEAN,
+    "description" TEXT,
+    "isValid" BOOLEAN NOT NULL DEFAULT true,
+    "isSent" BOOLEAN NOT NULL DEFAULT false,
+    "sentToUsers" TEXT[],
+    "postedAt" TIMESTAMP(3),
+    "scrapedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "scraped_listings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "conversations" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "direction" "Direction" NOT NULL,
+    "messageType" "MessageType" NOT NULL DEFAULT 'TEXT',
+    "content" TEXT NOT NULL,
+    "mediaUrl" TEXT,
+    "isRead" BOOLEAN NOT NULL DEFAULT false,
+    "isAiGenerated" BOOLEAN NOT NULL DEFAULT false,
+    "whatsappMessageId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "conversations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "matches" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "listingId" TEXT NOT NULL,
+    "matchScore" DOUBLE PRECISION NOT NULL,
+    "matchReasons" TEXT[],
+    "isNotified" BOOLEAN NOT NULL DEFAULT false,
+    "notifiedAt" TIMESTAMP(3),
+    "isViewed" BOOLEAN NOT NULL DEFAULT false,
+    "viewedAt" TIMESTAMP(3),
+    "isInterested" BOOLEAN,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "matches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "notifications" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "NotificationType" NOT NULL,
+    "title" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "isRead" BOOLEAN NOT NULL DEFAULT false,
+    "readAt" TIMESTAMP(3),
+    "relatedEntityId" TEXT,
+    "relatedEntityType" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "facebook_groups" (
+    "id" TEXT NOT NULL,
+    "groupId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "keywords" TEXT[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "lastScrapedAt" TIMESTAMP(3),
+    "totalPosts" INTEGER NOT NULL DEFAULT 0,
+    "validPosts" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "facebook_groups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "system_config" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "value" JSONB NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "system_config_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "activity_logs" (
+    "id" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "entityType" TEXT NOT NULL,
+    "entityId" TEXT,
+    "userId" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "activity_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_whatsappNumber_key" ON "users"("whatsappNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_email_key" ON "users"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "property_criteria_userId_key" ON "property_criteria"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scraped_listings_postId_key" ON "scraped_listings"("postId");
+
+-- CreateIndex
+CREATE INDEX "scraped_listings_source_idx" ON "scraped_listings"("source");
+
+-- CreateIndex
+CREATE INDEX "scraped_listings_isValid_idx" ON "scraped_listings"("isValid");
+
+-- CreateIndex
+CREATE INDEX "scraped_listings_scrapedAt_idx" ON "scraped_listings"("scrapedAt");
+
+-- CreateIndex
+CREATE INDEX "scraped_listings_price_idx" ON "scraped_listings"("price");
+
+-- CreateIndex
+CREATE INDEX "scraped_listings_location_idx" ON "scraped_listings"("location");
+
+-- CreateIndex
+CREATE INDEX "conversations_userId_idx" ON "conversations"("userId");
+
+-- CreateIndex
+CREATE INDEX "conversations_createdAt_idx" ON "conversations"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "matches_userId_idx" ON "matches"("userId");
+
+-- CreateIndex
+CREATE INDEX "matches_listingId_idx" ON "matches"("listingId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "matches_userId_listingId_key" ON "matches"("userId", "listingId");
+
+-- CreateIndex
+CREATE INDEX "notifications_userId_idx" ON "notifications"("userId");
+
+-- CreateIndex
+CREATE INDEX "notifications_isRead_idx" ON "notifications"("isRead");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "facebook_groups_groupId_key" ON "facebook_groups"("groupId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "system_config_key_key" ON "system_config"("key");
+
+-- CreateIndex
+CREATE INDEX "activity_logs_createdAt_idx" ON "activity_logs"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "activity_logs_action_idx" ON "activity_logs"("action");
+
+-- CreateIndex
+CREATE INDEX "activity_logs_entityType_idx" ON "activity_logs"("entityType");
+
+-- AddForeignKey
+ALTER TABLE "property_criteria" ADD CONSTRAINT "property_criteria_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "conversations" ADD CONSTRAINT "conversations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "matches" ADD CONSTRAINT "matches_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "matches" ADD CONSTRAINT "matches_listingId_fkey" FOREIGN KEY ("listingId") REFERENCES "scraped_listings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
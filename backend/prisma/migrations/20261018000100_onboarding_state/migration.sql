@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "contextUpdatedAt" TIMESTAMP(3),
+ADD COLUMN     "conversationContext" JSONB;
+
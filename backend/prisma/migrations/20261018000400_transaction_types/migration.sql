@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "TransactionType" AS ENUM ('RENT', 'SALE', 'COMMERCIAL_LEASE');
+
+-- AlterTable
+ALTER TABLE "property_criteria" ADD COLUMN     "transactionType" "TransactionType";
+
+-- AlterTable
+ALTER TABLE "scraped_listings" ADD COLUMN     "transactionType" "TransactionType";
+
+-- CreateIndex
+CREATE INDEX "scraped_listings_transactionType_idx" ON "scraped_listings"("transactionType");
+
@@ -0,0 +1,26 @@
+-- Extended property taxonomy.
+-- Listings keep HOUSE / APARTMENT, BOTH was never a real listing type.
+-- Criteria now hold several types: HOUSE and APARTMENT widen to their close
+-- variants, BOTH becomes an empty list (any type).
+
+ALTER TYPE "PropertyType" RENAME TO "PropertyType_old";
+
+CREATE TYPE "PropertyType" AS ENUM ('STUDIO', 'ROOM', 'APARTMENT', 'HOUSE', 'VILLA', 'DUPLEX', 'LAND', 'COMMERCIAL', 'OFFICE');
+
+ALTER TABLE "scraped_listings"
+  ALTER COLUMN "propertyType" TYPE "PropertyType"
+  USING (CASE WHEN "propertyType"::text = 'BOTH' THEN NULL ELSE "propertyType"::text::"PropertyType" END);
+
+ALTER TABLE "property_criteria"
+  ADD COLUMN "propertyTypes" "PropertyType"[] DEFAULT ARRAY[]::"PropertyType"[];
+
+UPDATE "property_criteria"
+SET "propertyTypes" = CASE "propertyType"::text
+  WHEN 'HOUSE' THEN ARRAY['HOUSE', 'VILLA', 'DUPLEX']::"PropertyType"[]
+  WHEN 'APARTMENT' THEN ARRAY['APARTMENT', 'STUDIO']::"PropertyType"[]
+  ELSE ARRAY[]::"PropertyType"[]
+END;
+
+ALTER TABLE "property_criteria" DROP COLUMN "propertyType";
+
+DROP TYPE "PropertyType_old";
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "property_criteria" ADD COLUMN     "zoneRadii" JSONB;
+
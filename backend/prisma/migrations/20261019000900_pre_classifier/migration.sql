@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "scraped_listings" ADD COLUMN     "preClassifierPassed" BOOLEAN,
+ADD COLUMN     "preClassifierScore" DOUBLE PRECISION,
+ADD COLUMN     "validatedByAdmin" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "scraped_listings_preClassifierPassed_idx" ON "scraped_listings"("preClassifierPassed");
+
@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "PricePeriod" AS ENUM ('NIGHT', 'DAY', 'WEEK', 'MONTH', 'YEAR');
+
+-- AlterTable
+ALTER TABLE "property_criteria" ADD COLUMN     "maxMoveInCost" INTEGER;
+
+-- AlterTable
+ALTER TABLE "scraped_listings" ADD COLUMN     "advanceMonths" DOUBLE PRECISION,
+ADD COLUMN     "agencyFee" INTEGER,
+ADD COLUMN     "depositMonths" DOUBLE PRECISION,
+ADD COLUMN     "moveInCost" INTEGER,
+ADD COLUMN     "pricePeriod" "PricePeriod";
+
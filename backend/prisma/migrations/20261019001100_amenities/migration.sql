@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "Amenity" AS ENUM ('BOREHOLE', 'GENERATOR', 'AIR_CONDITIONING', 'GUARD', 'PARKING', 'FENCE', 'TILED_FLOOR', 'SEPARATE_METER', 'WATER_HEATER', 'WATER_TANK', 'POOL', 'GARDEN');
+
+-- AlterTable
+ALTER TABLE "property_criteria" ADD COLUMN     "preferredAmenities" "Amenity"[] DEFAULT ARRAY[]::"Amenity"[],
+ADD COLUMN     "requiredAmenities" "Amenity"[] DEFAULT ARRAY[]::"Amenity"[];
+
+-- AlterTable
+ALTER TABLE "scraped_listings" ADD COLUMN     "amenities" "Amenity"[] DEFAULT ARRAY[]::"Amenity"[];
+
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "scraped_listings" ADD COLUMN     "canonicalId" TEXT,
+ADD COLUMN     "duplicateScore" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "scraped_listings_canonicalId_idx" ON "scraped_listings"("canonicalId");
+
+-- AddForeignKey
+ALTER TABLE "scraped_listings" ADD CONSTRAINT "scraped_listings_canonicalId_fkey" FOREIGN KEY ("canonicalId") REFERENCES "scraped_listings"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
@@ -0,0 +1,24 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'PRICE_DROP';
+
+-- CreateTable
+CREATE TABLE "listing_price_history" (
+    "id" TEXT NOT NULL,
+    "canonicalId" TEXT NOT NULL,
+    "listingId" TEXT NOT NULL,
+    "price" INTEGER NOT NULL,
+    "previousPrice" INTEGER,
+    "observedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "listing_price_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "listing_price_history_listingId_key" ON "listing_price_history"("listingId");
+
+-- CreateIndex
+CREATE INDEX "listing_price_history_canonicalId_observedAt_idx" ON "listing_price_history"("canonicalId", "observedAt");
+
+-- AddForeignKey
+ALTER TABLE "listing_price_history" ADD CONSTRAINT "listing_price_history_canonicalId_fkey" FOREIGN KEY ("canonicalId") REFERENCES "scraped_listings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "scraped_listings" ADD COLUMN     "offerCount" INTEGER,
+ADD COLUMN     "offerIndex" INTEGER,
+ADD COLUMN     "parentId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "scraped_listings_parentId_idx" ON "scraped_listings"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "scraped_listings" ADD CONSTRAINT "scraped_listings_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "scraped_listings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "RiskReview" AS ENUM ('PENDING', 'CLEARED', 'FRAUD');
+
+-- AlterTable
+ALTER TABLE "scraped_listings" ADD COLUMN     "riskFactors" JSONB,
+ADD COLUMN     "riskReview" "RiskReview",
+ADD COLUMN     "riskReviewedAt" TIMESTAMP(3),
+ADD COLUMN     "riskScore" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "scraped_listings_riskReview_idx" ON "scraped_listings"("riskReview");
+
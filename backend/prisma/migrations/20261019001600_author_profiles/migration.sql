@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "AuthorKind" AS ENUM ('AGENCY', 'OWNER', 'UNKNOWN');
+
+-- AlterTable
+ALTER TABLE "property_criteria" ADD COLUMN     "excludeAgencies" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "author_profiles" (
+    "id" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "name" TEXT,
+    "totalPosts" INTEGER NOT NULL DEFAULT 0,
+    "validPosts" INTEGER NOT NULL DEFAULT 0,
+    "groupIds" TEXT[],
+    "phones" TEXT[],
+    "firstPostAt" TIMESTAMP(3),
+    "lastPostAt" TIMESTAMP(3),
+    "kind" "AuthorKind" NOT NULL DEFAULT 'UNKNOWN',
+    "kindSignals" JSONB,
+    "kindSetByAdmin" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "author_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "author_profiles_authorId_key" ON "author_profiles"("authorId");
+
+-- CreateIndex
+CREATE INDEX "author_profiles_kind_idx" ON "author_profiles"("kind");
+
+-- CreateIndex
+CREATE INDEX "author_profiles_lastPostAt_idx" ON "author_profiles"("lastPostAt");
+
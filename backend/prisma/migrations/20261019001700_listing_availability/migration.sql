@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "ListingStatus" AS ENUM ('AVAILABLE', 'TAKEN', 'EXPIRED', 'REMOVED');
+
+-- AlterTable
+ALTER TABLE "scraped_listings" ADD COLUMN     "lastCheckedAt" TIMESTAMP(3),
+ADD COLUMN     "status" "ListingStatus" NOT NULL DEFAULT 'AVAILABLE',
+ADD COLUMN     "statusChangedAt" TIMESTAMP(3),
+ADD COLUMN     "statusReason" TEXT;
+
+-- CreateIndex
+CREATE INDEX "scraped_listings_status_idx" ON "scraped_listings"("status");
+
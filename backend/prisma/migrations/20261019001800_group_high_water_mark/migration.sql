@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "facebook_groups" ADD COLUMN     "lastSeenPostAt" TIMESTAMP(3),
+ADD COLUMN     "lastSeenPostId" TEXT;
+
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "facebook_groups" ADD COLUMN     "nextScrapeAt" TIMESTAMP(3),
+ADD COLUMN     "postsPerDay" DOUBLE PRECISION,
+ADD COLUMN     "scrapeIntervalMinutes" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "facebook_groups_nextScrapeAt_idx" ON "facebook_groups"("nextScrapeAt");
+
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "api_usage" (
+    "id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "requests" INTEGER NOT NULL DEFAULT 0,
+    "failures" INTEGER NOT NULL DEFAULT 0,
+    "rateLimited" INTEGER NOT NULL DEFAULT 0,
+    "quotaLimit" INTEGER,
+    "quotaRemaining" INTEGER,
+    "quotaResetAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "api_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_usage_date_key" ON "api_usage"("date");
+
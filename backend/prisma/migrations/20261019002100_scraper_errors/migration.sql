@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "ScraperErrorKind" AS ENUM ('RATE_LIMITED', 'NOT_FOUND', 'UPSTREAM', 'NETWORK', 'UNKNOWN');
+
+-- AlterTable
+ALTER TABLE "facebook_groups" ADD COLUMN     "circuitOpenUntil" TIMESTAMP(3),
+ADD COLUMN     "consecutiveFailures" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastError" TEXT,
+ADD COLUMN     "lastErrorAt" TIMESTAMP(3),
+ADD COLUMN     "lastErrorKind" "ScraperErrorKind";
+
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "ScrapeTrigger" AS ENUM ('SCHEDULED', 'MANUAL');
+
+-- CreateTable
+CREATE TABLE "scrape_runs" (
+    "id" TEXT NOT NULL,
+    "groupId" TEXT NOT NULL,
+    "trigger" "ScrapeTrigger" NOT NULL DEFAULT 'SCHEDULED',
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "finishedAt" TIMESTAMP(3) NOT NULL,
+    "durationMs" INTEGER NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "errorKind" "ScraperErrorKind",
+    "error" TEXT,
+    "reachedMark" BOOLEAN NOT NULL DEFAULT false,
+    "pagesFetched" INTEGER NOT NULL DEFAULT 0,
+    "postsFetched" INTEGER NOT NULL DEFAULT 0,
+    "keywordFiltered" INTEGER NOT NULL DEFAULT 0,
+    "newPosts" INTEGER NOT NULL DEFAULT 0,
+    "duplicates" INTEGER NOT NULL DEFAULT 0,
+    "errors" INTEGER NOT NULL DEFAULT 0,
+    "apiCalls" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "scrape_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "scrape_runs_groupId_startedAt_idx" ON "scrape_runs"("groupId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "scrape_runs_startedAt_idx" ON "scrape_runs"("startedAt");
+
+-- AddForeignKey
+ALTER TABLE "scrape_runs" ADD CONSTRAINT "scrape_runs_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "facebook_groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
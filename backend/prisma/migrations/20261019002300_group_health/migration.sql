@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "GroupHealthStatus" AS ENUM ('HEALTHY', 'WARNING', 'UNHEALTHY');
+
+-- AlterTable
+ALTER TABLE "facebook_groups" ADD COLUMN     "healthCheckedAt" TIMESTAMP(3),
+ADD COLUMN     "healthIssues" JSONB,
+ADD COLUMN     "healthMetrics" JSONB,
+ADD COLUMN     "healthScore" DOUBLE PRECISION,
+ADD COLUMN     "healthStatus" "GroupHealthStatus";
+
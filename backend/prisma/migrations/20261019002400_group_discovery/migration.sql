@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "CandidateStatus" AS ENUM ('NEW', 'ADDED', 'DISMISSED');
+
+-- CreateTable
+CREATE TABLE "discovery_queries" (
+    "id" TEXT NOT NULL,
+    "city" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "lastRunAt" TIMESTAMP(3),
+    "lastResultCount" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "discovery_queries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "group_candidates" (
+    "id" TEXT NOT NULL,
+    "groupId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "url" TEXT,
+    "membersCount" INTEGER,
+    "privacy" TEXT,
+    "cities" TEXT[],
+    "queries" TEXT[],
+    "sampledPosts" INTEGER,
+    "keywordDensity" DOUBLE PRECISION,
+    "postsPerDay" DOUBLE PRECISION,
+    "sampleError" TEXT,
+    "sampledAt" TIMESTAMP(3),
+    "score" DOUBLE PRECISION,
+    "status" "CandidateStatus" NOT NULL DEFAULT 'NEW',
+    "discoveredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "group_candidates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "discovery_queries_city_query_key" ON "discovery_queries"("city", "query");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "group_candidates_groupId_key" ON "group_candidates"("groupId");
+
+-- CreateIndex
+CREATE INDEX "group_candidates_status_score_idx" ON "group_candidates"("status", "score");
+
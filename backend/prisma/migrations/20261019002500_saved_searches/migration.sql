@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "SavedSearchScope" AS ENUM ('GROUP', 'MONITORED', 'GLOBAL');
+
+-- AlterTable
+ALTER TABLE "scrape_runs" ADD COLUMN     "savedSearchId" TEXT,
+ALTER COLUMN "groupId" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "saved_searches" (
+    "id" TEXT NOT NULL,
+    "query" TEXT NOT NULL,
+    "scope" "SavedSearchScope" NOT NULL DEFAULT 'MONITORED',
+    "groupId" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "intervalMinutes" INTEGER NOT NULL DEFAULT 360,
+    "lastRunAt" TIMESTAMP(3),
+    "nextRunAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "totalFound" INTEGER NOT NULL DEFAULT 0,
+    "totalNew" INTEGER NOT NULL DEFAULT 0,
+    "totalDuplicates" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "saved_searches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "saved_searches_nextRunAt_idx" ON "saved_searches"("nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "scrape_runs_savedSearchId_startedAt_idx" ON "scrape_runs"("savedSearchId", "startedAt");
+
+-- AddForeignKey
+ALTER TABLE "saved_searches" ADD CONSTRAINT "saved_searches_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "facebook_groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scrape_runs" ADD CONSTRAINT "scrape_runs_savedSearchId_fkey" FOREIGN KEY ("savedSearchId") REFERENCES "saved_searches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
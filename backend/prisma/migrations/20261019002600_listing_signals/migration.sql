@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "scraped_listings" ADD COLUMN     "imageKeys" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "phones" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- Photo keys of the listings already scraped: file name without the signed query string.
+-- Phone numbers need the JavaScript extractor: POST /api/admin/listings/signals/rebuild
+UPDATE "scraped_listings"
+SET "imageKeys" = ARRAY(
+  SELECT DISTINCT substring(regexp_replace(url, '[?#].*$', '') FROM '[^/]*$')
+  FROM unnest("images") AS url
+)
+WHERE cardinality("images") > 0;
+
+-- CreateIndex
+CREATE INDEX "scraped_listings_phones_idx" ON "scraped_listings" USING GIN ("phones");
+
+-- CreateIndex
+CREATE INDEX "scraped_listings_imageKeys_idx" ON "scraped_listings" USING GIN ("imageKeys");
@@ -1,8 +1,21 @@
 import { Request, Response } from 'express';
+import { AuthorKind, CandidateStatus, ListingStatus, PropertyType, RiskReview, SavedSearchScope, TransactionType } from '@prisma/client';
 import { prisma } from '../config/database';
-import { facebookScraperService, DEFAULT_IMMO_KEYWORDS } from '../services/facebook-scraper.service';
+import { facebookScraperService } from '../services/facebook-scraper.service';
 import { aiClassifierService } from '../services/ai-classifier.service';
+import { apiQuotaService } from '../services/api-quota.service';
+import { authorProfileService } from '../services/author-profile.service';
+import { duplicateDetectorService } from '../services/duplicate-detector.service';
+import { groupDiscoveryService } from '../services/group-discovery.service';
+import { groupHealthService } from '../services/group-health.service';
+import { listingLifecycleService } from '../services/listing-lifecycle.service';
 import { matchingService } from '../services/matching.service';
+import { preClassifierService } from '../services/pre-classifier.service';
+import { riskScoringService } from '../services/risk-scoring.service';
+import { savedSearchService } from '../services/saved-search.service';
+import { scrapeRunService } from '../services/scrape-run.service';
+import { getImageKeys } from '../utils/image';
+import { getListingPhones } from '../utils/phone';
 
 export class AdminController {
   /**
@@ -17,6 +30,8 @@ export class AdminController {
         groups,
         recentListings,
         matchStats,
+        preClassifier,
+        apiUsage,
       ] = await Promise.all([
         // User stats
         prisma.$transaction([
@@ -39,6 +54,7 @@ export class AdminController {
               scrapedAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) },
             },
           }),
+          prisma.scrapedListing.count({ where: { riskReview: 'PENDING' } }),
         ]),
 
         // Match stats
@@ -62,6 +78,12 @@ export class AdminController {
 
         // Match stats by day
         matchingService.getStats(),
+
+        // Pre-classifier decisions
+        preClassifierService.getStats(),
+
+        // RapidAPI budget
+        apiQuotaService.getUsage(),
       ]);
 
       res.json({
@@ -75,6 +97,7 @@ export class AdminController {
           valid: listings[1],
           enriched: listings[2],
           last24h: listings[3],
+          pendingRiskReview: listings[4],
         },
         matches: {
           total: matches[0],
@@ -84,6 +107,8 @@ export class AdminController {
         },
         groups,
         recentListings,
+        preClassifier,
+        apiUsage,
         lastUpdated: new Date().toISOString(),
       });
     } catch (error) {
@@ -114,10 +139,30 @@ export class AdminController {
         where.aiEnriched = true;
       }
 
+      const status = req.query.status as string;
+      if (status && Object.values(ListingStatus).includes(status as ListingStatus)) {
+        where.status = status;
+      }
+
+      // Only the first listing of each duplicate cluster
+      if (req.query.hideDuplicates === 'true') {
+        where.canonicalId = null;
+      }
+
       if (req.query.groupId) {
         where.groupId = req.query.groupId as string;
       }
 
+      const transactionType = req.query.transactionType as string;
+      if (transactionType && Object.values(TransactionType).includes(transactionType as TransactionType)) {
+        where.transactionType = transactionType;
+      }
+
+      const propertyType = req.query.propertyType as string;
+      if (propertyType && Object.values(PropertyType).includes(propertyType as PropertyType)) {
+        where.propertyType = propertyType;
+      }
+
       // Search
       if (req.query.search) {
         where.OR = [
@@ -131,7 +176,7 @@ export class AdminController {
         prisma.scrapedListing.findMany({
           where,
           include: {
-            _count: { select: { matches: true } },
+            _count: { select: { matches: true, duplicates: true } },
           },
           skip,
           take: limit,
@@ -175,6 +220,23 @@ export class AdminController {
               },
             },
           },
+          canonical: {
+            select: { id: true, postUrl: true, groupName: true, scrapedAt: true },
+          },
+          parent: {
+            select: { id: true, postId: true, offerCount: true },
+          },
+          offers: {
+            select: { id: true, offerIndex: true, title: true, price: true, location: true, isValid: true },
+            orderBy: { offerIndex: 'asc' },
+          },
+          duplicates: {
+            select: { id: true, postUrl: true, groupName: true, scrapedAt: true, duplicateScore: true },
+            orderBy: { scrapedAt: 'asc' },
+          },
+          priceHistory: {
+            orderBy: { observedAt: 'asc' },
+          },
         },
       });
 
@@ -198,6 +260,20 @@ export class AdminController {
       const { id } = req.params;
       const data = req.body;
 
+      // Manual validation becomes a training label for the pre-classifier
+      if (typeof data.isValid === 'boolean') {
+        data.validatedByAdmin = true;
+      }
+
+      // Keep the duplicate and fraud lookup columns in step with an edited contact or photos
+      if ('contact' in data || 'originalText' in data) {
+        const listing = await prisma.scrapedListing.findUniqueOrThrow({ where: { id }, select: { contact: true, originalText: true } });
+        data.phones = getListingPhones({ ...listing, ...data });
+      }
+      if (Array.isArray(data.images)) {
+        data.imageKeys = getImageKeys(data.images);
+      }
+
       const updated = await prisma.scrapedListing.update({
         where: { id },
         data,
@@ -210,6 +286,27 @@ export class AdminController {
     }
   }
 
+  /**
+   * Mark a listing as taken, expired, removed or available again
+   */
+  async updateListingStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { status, reason } = req.body;
+
+      if (!Object.values(ListingStatus).includes(status)) {
+        res.status(400).json({ error: `Status must be one of ${Object.values(ListingStatus).join(', ')}` });
+        return;
+      }
+
+      const listing = await listingLifecycleService.setStatus(id, status, reason || 'Modifié par un administrateur', { byAdmin: true });
+      res.json(listing);
+    } catch (error) {
+      console.error('Error updating listing status:', error);
+      res.status(500).json({ error: 'Failed to update listing status' });
+    }
+  }
+
   /**
    * Delete listing
    */
@@ -228,6 +325,198 @@ export class AdminController {
     }
   }
 
+  /**
+   * Listings suspected of fraud, waiting for a decision
+   */
+  async getRiskQueue(req: Request, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const status = req.query.status as RiskReview | undefined;
+
+      const { listings, total } = await riskScoringService.getReviewQueue({ page, limit, status });
+
+      res.json({
+        listings,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching risk queue:', error);
+      res.status(500).json({ error: 'Failed to fetch risk queue' });
+    }
+  }
+
+  /**
+   * Clear a suspected listing or confirm the fraud
+   */
+  async reviewListingRisk(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { decision } = req.body;
+
+      if (decision !== 'CLEARED' && decision !== 'FRAUD') {
+        res.status(400).json({ error: 'Decision must be CLEARED or FRAUD' });
+        return;
+      }
+
+      const listing = await riskScoringService.review(id, decision);
+
+      // A cleared listing was held back from matching
+      if (decision === 'CLEARED') {
+        matchingService.processMatches(listing)
+          .catch(error => console.error(`Matching failed for cleared listing ${id}:`, error));
+      }
+
+      res.json(listing);
+    } catch (error) {
+      console.error('Error reviewing listing risk:', error);
+      res.status(500).json({ error: 'Failed to review listing' });
+    }
+  }
+
+  /**
+   * Author profiles, most active first
+   */
+  async getAuthors(req: Request, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const kind = req.query.kind as AuthorKind | undefined;
+      const search = req.query.search as string | undefined;
+
+      const where: any = {};
+      if (kind) where.kind = kind;
+      if (search) {
+        where.OR = [
+          { name: { contains: search, mode: 'insensitive' } },
+          { phones: { has: search } },
+          { authorId: search },
+        ];
+      }
+
+      const [authors, total] = await Promise.all([
+        prisma.authorProfile.findMany({
+          where,
+          orderBy: [{ totalPosts: 'desc' }, { lastPostAt: 'desc' }],
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.authorProfile.count({ where }),
+      ]);
+
+      res.json({
+        authors,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching authors:', error);
+      res.status(500).json({ error: 'Failed to fetch authors' });
+    }
+  }
+
+  /**
+   * Author profile with their latest posts
+   */
+  async getAuthorById(req: Request, res: Response): Promise<void> {
+    try {
+      const { authorId } = req.params;
+
+      const [author, listings] = await Promise.all([
+        prisma.authorProfile.findUnique({ where: { authorId } }),
+        prisma.scrapedListing.findMany({
+          where: { authorId, parentId: null },
+          orderBy: { scrapedAt: 'desc' },
+          take: 20,
+          select: {
+            id: true, title: true, price: true, location: true, groupName: true,
+            postUrl: true, isValid: true, agencyFee: true, offerCount: true, scrapedAt: true,
+          },
+        }),
+      ]);
+
+      if (!author) {
+        res.status(404).json({ error: 'Author not found' });
+        return;
+      }
+
+      res.json({ ...author, listings });
+    } catch (error) {
+      console.error('Error fetching author:', error);
+      res.status(500).json({ error: 'Failed to fetch author' });
+    }
+  }
+
+  /**
+   * Classify an author by hand, or give the classification back to the automatic rules
+   */
+  async updateAuthor(req: Request, res: Response): Promise<void> {
+    try {
+      const { authorId } = req.params;
+      const { kind } = req.body;
+
+      if (kind !== null && !['AGENCY', 'OWNER', 'UNKNOWN'].includes(kind)) {
+        res.status(400).json({ error: 'Kind must be AGENCY, OWNER, UNKNOWN or null' });
+        return;
+      }
+
+      const author = await authorProfileService.setKind(authorId, kind);
+      res.json(author);
+    } catch (error) {
+      console.error('Error updating author:', error);
+      res.status(500).json({ error: 'Failed to update author' });
+    }
+  }
+
+  /**
+   * Recompute every author profile from the scraped listings
+   */
+  async rebuildAuthors(req: Request, res: Response): Promise<void> {
+    try {
+      // Run rebuild asynchronously
+      authorProfileService.rebuildAll()
+        .then(count => console.log(`Author profiles rebuilt: ${count}`))
+        .catch(error => console.error('Author profiles rebuild failed:', error));
+
+      res.json({
+        message: 'Author profiles rebuild triggered',
+        status: 'running'
+      });
+    } catch (error) {
+      console.error('Error triggering author rebuild:', error);
+      res.status(500).json({ error: 'Failed to trigger author rebuild' });
+    }
+  }
+
+  /**
+   * Fill the phone and photo lookup columns of older listings
+   */
+  async rebuildListingSignals(req: Request, res: Response): Promise<void> {
+    try {
+      // Run rebuild asynchronously
+      duplicateDetectorService.rebuildSignals()
+        .then(count => console.log(`Listing signals rebuilt: ${count}`))
+        .catch(error => console.error('Listing signals rebuild failed:', error));
+
+      res.json({
+        message: 'Listing signals rebuild triggered',
+        status: 'running'
+      });
+    } catch (error) {
+      console.error('Error triggering listing signals rebuild:', error);
+      res.status(500).json({ error: 'Failed to trigger listing signals rebuild' });
+    }
+  }
+
   /**
    * Search Facebook groups by keyword
    */
@@ -249,6 +538,188 @@ export class AdminController {
     }
   }
 
+  /**
+   * Saved discovery queries, by city
+   */
+  async getDiscoveryQueries(req: Request, res: Response): Promise<void> {
+    try {
+      const queries = await prisma.discoveryQuery.findMany({
+        orderBy: [{ city: 'asc' }, { createdAt: 'asc' }],
+      });
+      res.json(queries);
+    } catch (error) {
+      console.error('Error fetching discovery queries:', error);
+      res.status(500).json({ error: 'Failed to fetch discovery queries' });
+    }
+  }
+
+  /**
+   * Save a discovery query, or the default queries of a city when none is given
+   */
+  async addDiscoveryQuery(req: Request, res: Response): Promise<void> {
+    try {
+      const city = typeof req.body.city === 'string' ? req.body.city.trim() : '';
+      const query = typeof req.body.query === 'string' ? req.body.query.trim() : '';
+
+      if (!city) {
+        res.status(400).json({ error: 'city is required' });
+        return;
+      }
+
+      const queries = query ? [query] : groupDiscoveryService.defaultQueries(city);
+      await prisma.discoveryQuery.createMany({
+        data: queries.map(text => ({ city, query: text })),
+        skipDuplicates: true,
+      });
+
+      const saved = await prisma.discoveryQuery.findMany({
+        where: { city, query: { in: queries } },
+        orderBy: { createdAt: 'asc' },
+      });
+      res.json(saved);
+    } catch (error) {
+      console.error('Error adding discovery query:', error);
+      res.status(500).json({ error: 'Failed to add discovery query' });
+    }
+  }
+
+  /**
+   * Enable or disable a discovery query
+   */
+  async updateDiscoveryQuery(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { isActive } = req.body;
+
+      const updated = await prisma.discoveryQuery.update({
+        where: { id },
+        data: { isActive },
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error('Error updating discovery query:', error);
+      res.status(500).json({ error: 'Failed to update discovery query' });
+    }
+  }
+
+  /**
+   * Delete a discovery query
+   */
+  async deleteDiscoveryQuery(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      await prisma.discoveryQuery.delete({
+        where: { id },
+      });
+
+      res.json({ message: 'Discovery query deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting discovery query:', error);
+      res.status(500).json({ error: 'Failed to delete discovery query' });
+    }
+  }
+
+  /**
+   * Run the discovery queries in background
+   */
+  async runDiscovery(req: Request, res: Response): Promise<void> {
+    try {
+      const city = typeof req.body.city === 'string' && req.body.city ? req.body.city : undefined;
+
+      groupDiscoveryService.run(city)
+        .then(result => console.log(`Discovery completed: ${result.newCandidates} new candidates`))
+        .catch(error => console.error('Discovery failed:', error));
+
+      res.json({
+        message: 'Discovery triggered successfully',
+        status: 'running',
+      });
+    } catch (error) {
+      console.error('Error triggering discovery:', error);
+      res.status(500).json({ error: 'Failed to trigger discovery' });
+    }
+  }
+
+  /**
+   * Discovered groups, best ranked first
+   */
+  async getGroupCandidates(req: Request, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const status = (req.query.status as CandidateStatus | undefined) || 'NEW';
+      const city = req.query.city as string | undefined;
+
+      const where: any = { status };
+      if (city) where.cities = { has: city };
+
+      const [candidates, total] = await Promise.all([
+        prisma.groupCandidate.findMany({
+          where,
+          orderBy: [{ score: { sort: 'desc', nulls: 'last' } }, { membersCount: { sort: 'desc', nulls: 'last' } }],
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.groupCandidate.count({ where }),
+      ]);
+
+      res.json({
+        candidates,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching group candidates:', error);
+      res.status(500).json({ error: 'Failed to fetch group candidates' });
+    }
+  }
+
+  /**
+   * Start monitoring a discovered group
+   */
+  async addGroupCandidate(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const candidate = await prisma.groupCandidate.findUnique({ where: { id } });
+      if (!candidate) {
+        res.status(404).json({ error: 'Candidate not found' });
+        return;
+      }
+
+      const updated = await groupDiscoveryService.addCandidate(candidate);
+      res.json(updated);
+    } catch (error) {
+      console.error('Error adding group candidate:', error);
+      res.status(500).json({ error: 'Failed to add group candidate' });
+    }
+  }
+
+  /**
+   * Dismiss a discovered group, it is not proposed again
+   */
+  async dismissGroupCandidate(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const updated = await prisma.groupCandidate.update({
+        where: { id },
+        data: { status: 'DISMISSED' },
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error('Error dismissing group candidate:', error);
+      res.status(500).json({ error: 'Failed to dismiss group candidate' });
+    }
+  }
+
   /**
    * Get all Facebook groups
    */
@@ -353,36 +824,17 @@ export class AdminController {
         return;
       }
 
-      const result = await facebookScraperService.getGroupPosts(group.groupId);
+      // Only the posts published since the last scrape, filtered on the group keywords
+      const { result, posts: filteredPosts, newListingIds, run } = await facebookScraperService.scrapeGroup(group, 'MANUAL');
 
       if (!result.success) {
-        res.status(502).json({ error: result.error || 'Failed to fetch posts from Facebook' });
+        res.status(result.errorKind === 'RATE_LIMITED' ? 429 : 502).json({
+          error: result.error || 'Failed to fetch posts from Facebook',
+          errorKind: result.errorKind,
+        });
         return;
       }
 
-      // Use group keywords, or default immobilier keywords if none configured
-      const keywords = group.keywords.length > 0 ? group.keywords : DEFAULT_IMMO_KEYWORDS;
-      const filteredPosts = result.posts.filter(post => {
-        const textLower = post.text.toLowerCase();
-        return keywords.some(kw => textLower.includes(kw.toLowerCase()));
-      });
-
-      // Save filtered posts to DB
-      const newListingIds: string[] = [];
-      for (const post of filteredPosts) {
-        const listingId = await facebookScraperService.processPost(post, group);
-        if (listingId) newListingIds.push(listingId);
-      }
-
-      // Update group stats
-      await prisma.facebookGroup.update({
-        where: { id },
-        data: {
-          lastScrapedAt: new Date(),
-          totalPosts: { increment: newListingIds.length },
-        },
-      });
-
       // Auto-enrich new listings with AI (fire-and-forget for speed)
       if (newListingIds.length > 0) {
         this.enrichListingsAsync(newListingIds);
@@ -401,6 +853,8 @@ export class AdminController {
         totalPosts: filteredPosts.length,
         newPosts: newListingIds.length,
         cursor: result.cursor,
+        reachedMark: result.reachedMark,
+        run,
         posts: filteredPosts,
         listings,
       });
@@ -411,6 +865,255 @@ export class AdminController {
     }
   }
 
+  /**
+   * Recompute the health of all groups now, instead of waiting for the nightly check
+   */
+  async checkGroupsHealth(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await groupHealthService.checkAll();
+      res.json(result);
+    } catch (error) {
+      console.error('Error checking groups health:', error);
+      res.status(500).json({ error: 'Failed to check groups health' });
+    }
+  }
+
+  /**
+   * Scrape history of a group, with its daily totals
+   */
+  async getGroupRuns(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const days = parseInt(req.query.days as string) || 14;
+
+      const [{ runs, total }, daily] = await Promise.all([
+        scrapeRunService.getRuns({ groupId: id, page, limit }),
+        scrapeRunService.getDailyStats(days, { groupId: id }),
+      ]);
+
+      res.json({
+        runs,
+        daily,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching group runs:', error);
+      res.status(500).json({ error: 'Failed to fetch group runs' });
+    }
+  }
+
+  /**
+   * Scrape history of all groups, with the daily totals
+   */
+  async getScrapeRuns(req: Request, res: Response): Promise<void> {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 50;
+      const days = parseInt(req.query.days as string) || 14;
+      const success = req.query.success === 'true' ? true : req.query.success === 'false' ? false : undefined;
+
+      const [{ runs, total }, daily] = await Promise.all([
+        scrapeRunService.getRuns({ groupId: req.query.groupId as string | undefined, success, page, limit }),
+        scrapeRunService.getDailyStats(days),
+      ]);
+
+      res.json({
+        runs,
+        daily,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching scrape runs:', error);
+      res.status(500).json({ error: 'Failed to fetch scrape runs' });
+    }
+  }
+
+  /**
+   * Saved post searches with their stats
+   */
+  async getSavedSearches(req: Request, res: Response): Promise<void> {
+    try {
+      const searches = await prisma.savedSearch.findMany({
+        include: { group: { select: { name: true } } },
+        orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+      });
+      res.json(searches);
+    } catch (error) {
+      console.error('Error fetching saved searches:', error);
+      res.status(500).json({ error: 'Failed to fetch saved searches' });
+    }
+  }
+
+  /**
+   * Save a post search
+   */
+  async addSavedSearch(req: Request, res: Response): Promise<void> {
+    try {
+      const data = this.parseSavedSearch(req.body);
+      if (typeof data === 'string') {
+        res.status(400).json({ error: data });
+        return;
+      }
+      if (!data.query) {
+        res.status(400).json({ error: 'query is required' });
+        return;
+      }
+
+      const search = await prisma.savedSearch.create({ data: { ...data, query: data.query } });
+      res.json(search);
+    } catch (error) {
+      console.error('Error adding saved search:', error);
+      res.status(500).json({ error: 'Failed to add saved search' });
+    }
+  }
+
+  /**
+   * Update a saved search
+   */
+  async updateSavedSearch(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = this.parseSavedSearch(req.body);
+      if (typeof data === 'string') {
+        res.status(400).json({ error: data });
+        return;
+      }
+
+      const updated = await prisma.savedSearch.update({
+        where: { id },
+        data: {
+          ...data,
+          isActive: typeof req.body.isActive === 'boolean' ? req.body.isActive : undefined,
+          // A new interval applies from now on
+          ...(data.intervalMinutes ? { nextRunAt: null } : {}),
+        },
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error('Error updating saved search:', error);
+      res.status(500).json({ error: 'Failed to update saved search' });
+    }
+  }
+
+  /**
+   * Delete a saved search
+   */
+  async deleteSavedSearch(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      await prisma.savedSearch.delete({
+        where: { id },
+      });
+
+      res.json({ message: 'Saved search deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting saved search:', error);
+      res.status(500).json({ error: 'Failed to delete saved search' });
+    }
+  }
+
+  /**
+   * Run a saved search now, in background
+   */
+  async runSavedSearch(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const search = await prisma.savedSearch.findUnique({ where: { id } });
+      if (!search) {
+        res.status(404).json({ error: 'Saved search not found' });
+        return;
+      }
+
+      savedSearchService.runSearch(search, 'MANUAL')
+        .then(run => console.log(`Saved search "${search.query}" completed: ${run.newPosts} new posts`))
+        .catch(error => console.error(`Saved search "${search.query}" failed:`, error));
+
+      res.json({
+        message: 'Search triggered successfully',
+        status: 'running',
+      });
+    } catch (error) {
+      console.error('Error triggering saved search:', error);
+      res.status(500).json({ error: 'Failed to trigger saved search' });
+    }
+  }
+
+  /**
+   * Run history of a saved search, with its daily totals
+   */
+  async getSavedSearchRuns(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+      const days = parseInt(req.query.days as string) || 14;
+
+      const [{ runs, total }, daily] = await Promise.all([
+        scrapeRunService.getRuns({ savedSearchId: id, page, limit }),
+        scrapeRunService.getDailyStats(days, { savedSearchId: id }),
+      ]);
+
+      res.json({
+        runs,
+        daily,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching saved search runs:', error);
+      res.status(500).json({ error: 'Failed to fetch saved search runs' });
+    }
+  }
+
+  /**
+   * Validate the fields of a saved search, returns an error message when invalid
+   */
+  private parseSavedSearch(body: any): {
+    query?: string;
+    scope?: SavedSearchScope;
+    groupId?: string | null;
+    priority?: number;
+    intervalMinutes?: number;
+  } | string {
+    const scopes: SavedSearchScope[] = ['GROUP', 'MONITORED', 'GLOBAL'];
+    if (body.scope !== undefined && !scopes.includes(body.scope)) {
+      return `scope must be one of ${scopes.join(', ')}`;
+    }
+    if (body.scope === 'GROUP' && !body.groupId) {
+      return 'groupId is required for a GROUP search';
+    }
+    if (body.intervalMinutes !== undefined && !(Number.isInteger(body.intervalMinutes) && body.intervalMinutes >= 15)) {
+      return 'intervalMinutes must be an integer of at least 15';
+    }
+
+    return {
+      query: typeof body.query === 'string' && body.query.trim() ? body.query.trim() : undefined,
+      scope: body.scope,
+      groupId: body.scope === undefined ? undefined : body.scope === 'GROUP' ? body.groupId : null,
+      priority: Number.isInteger(body.priority) ? body.priority : undefined,
+      intervalMinutes: body.intervalMinutes,
+    };
+  }
+
   /**
    * Enrich listings with AI in background (fire-and-forget)
    */
@@ -489,6 +1192,29 @@ export class AdminController {
     }
   }
 
+  /**
+   * Retrain the pre-classifier from admin-validated listings
+   */
+  async trainPreClassifier(req: Request, res: Response): Promise<void> {
+    try {
+      const model = await preClassifierService.train();
+      if (!model) {
+        res.status(400).json({ error: 'Not enough admin-validated listings to train the pre-classifier' });
+        return;
+      }
+
+      res.json({
+        message: 'Pre-classifier trained successfully',
+        trainedAt: model.trainedAt,
+        samples: model.samples,
+        vocabulary: Object.keys(model.tokens).length,
+      });
+    } catch (error) {
+      console.error('Error training pre-classifier:', error);
+      res.status(500).json({ error: 'Failed to train pre-classifier' });
+    }
+  }
+
   /**
    * Get activity logs
    */
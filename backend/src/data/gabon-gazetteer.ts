@@ -0,0 +1,150 @@
+export type PlaceKind = 'city' | 'arrondissement' | 'quartier' | 'landmark';
+
+export interface Place {
+  id: string;
+  name: string;        // Canonical spelling shown to users
+  kind: PlaceKind;
+  parentId?: string;
+  aliases?: string[];  // Other spellings; accents, case, dashes and "PK 8" / "PK8" are handled by the lookup
+  lat?: number;        // Approximate centre, a few hundred meters of precision
+  lng?: number;
+}
+
+const city = (id: string, name: string, aliases: string[] = []): Place =>
+  ({ id, name, kind: 'city', aliases });
+
+const quartier = (parentId: string, id: string, name: string, [lat, lng]: [number, number], aliases: string[] = []): Place =>
+  ({ id, name, kind: 'quartier', parentId, aliases, lat, lng });
+
+const landmark = (parentId: string, id: string, name: string, [lat, lng]: [number, number], aliases: string[] = []): Place =>
+  ({ id, name, kind: 'landmark', parentId, aliases, lat, lng });
+
+const arrondissement = (n: number, ordinal: string): Place => ({
+  id: `libreville-${n}`,
+  name: `${n === 1 ? '1er' : `${n}e`} arrondissement`,
+  kind: 'arrondissement',
+  parentId: 'libreville',
+  aliases: [`${n}eme arrondissement`, `${n}e arr`, `${ordinal} arrondissement`],
+});
+
+/**
+ * Offline gazetteer of the places used in Gabonese real estate posts.
+ * Grand Libreville communes (Akanda, Owendo, Ntoum) are kept apart from Libreville
+ * so that a search on one does not match the others.
+ */
+export const GABON_PLACES: Place[] = [
+  // Cities and communes
+  city('libreville', 'Libreville', ['lbv', 'libre ville']),
+  city('akanda', 'Akanda'),
+  city('owendo', 'Owendo'),
+  city('ntoum', 'Ntoum'),
+  city('port-gentil', 'Port-Gentil', ['pog', 'port gentil']),
+  city('franceville', 'Franceville', ['fcv']),
+  city('moanda', 'Moanda'),
+  city('oyem', 'Oyem'),
+  city('bitam', 'Bitam'),
+  city('lambarene', 'Lambaréné'),
+  city('mouila', 'Mouila'),
+  city('tchibanga', 'Tchibanga'),
+  city('koulamoutou', 'Koulamoutou'),
+  city('makokou', 'Makokou'),
+  city('lastoursville', 'Lastoursville'),
+  city('gamba', 'Gamba'),
+
+  // Libreville arrondissements
+  arrondissement(1, 'premier'),
+  arrondissement(2, 'deuxieme'),
+  arrondissement(3, 'troisieme'),
+  arrondissement(4, 'quatrieme'),
+  arrondissement(5, 'cinquieme'),
+  arrondissement(6, 'sixieme'),
+
+  // Libreville quartiers
+  quartier('libreville', 'centre-ville', 'Centre-ville', [0.3925, 9.4537], ['libreville centre', 'centre ville lbv']),
+  quartier('libreville', 'louis', 'Quartier Louis', [0.4050, 9.4390], ['louis']),
+  quartier('libreville', 'glass', 'Glass', [0.3780, 9.4480]),
+  quartier('libreville', 'batterie-iv', 'Batterie IV', [0.4250, 9.4370], ['batterie 4', 'batterie']),
+  quartier('libreville', 'la-sabliere', 'La Sablière', [0.4620, 9.4080], ['sabliere']),
+  quartier('libreville', 'haut-de-gue-gue', 'Haut de Gué-Gué', [0.4200, 9.4500], ['haut gue gue']),
+  quartier('libreville', 'gue-gue', 'Gué-Gué', [0.4150, 9.4450], ['gue gue', 'bas de gue gue']),
+  quartier('libreville', 'la-peyrie', 'La Peyrie', [0.4000, 9.4480], ['peyrie']),
+  quartier('libreville', 'nombakele', 'Nombakélé', [0.3960, 9.4560]),
+  quartier('libreville', 'mont-bouet', 'Mont-Bouët', [0.3900, 9.4600], ['montbouet']),
+  quartier('libreville', 'london', 'London', [0.3800, 9.4580]),
+  quartier('libreville', 'petit-paris', 'Petit Paris', [0.3850, 9.4620]),
+  quartier('libreville', 'pont-nomba', 'Pont Nomba', [0.3830, 9.4500]),
+  quartier('libreville', 'cocotiers', 'Cocotiers', [0.3700, 9.4550], ['les cocotiers']),
+  quartier('libreville', 'plein-ciel', 'Plein Ciel', [0.3870, 9.4680]),
+  quartier('libreville', 'derriere-la-prison', 'Derrière la Prison', [0.3970, 9.4650], ['derriere prison']),
+  quartier('libreville', 'akebe', 'Akébé', [0.3700, 9.4700], ['akebe ville']),
+  quartier('akebe', 'akebe-plaine', 'Akébé Plaine', [0.3650, 9.4650]),
+  quartier('akebe', 'akebe-poteau', 'Akébé Poteau', [0.3720, 9.4760]),
+  quartier('libreville', 'belle-vue', 'Belle-Vue', [0.3830, 9.4760], ['bellevue']),
+  quartier('belle-vue', 'belle-vue-1', 'Belle-Vue 1', [0.3850, 9.4740], ['bellevue 1']),
+  quartier('belle-vue', 'belle-vue-2', 'Belle-Vue 2', [0.3800, 9.4800], ['bellevue 2']),
+  quartier('libreville', 'kinguele', 'Kinguélé', [0.3600, 9.4800]),
+  quartier('libreville', 'nkembo', 'Nkembo', [0.3940, 9.4700]),
+  quartier('libreville', 'oloumi', 'Oloumi', [0.3650, 9.4550]),
+  quartier('libreville', 'sotega', 'Sotéga', [0.3750, 9.4900]),
+  quartier('libreville', 'plaine-orety', 'Plaine Orety', [0.4080, 9.4600], ['orety', 'plaine oreti']),
+  quartier('libreville', 'lalala', 'Lalala', [0.3550, 9.4720]),
+  quartier('libreville', 'charbonnages', 'Charbonnages', [0.4350, 9.4350], ['charbonnage']),
+  quartier('libreville', 'awendje', 'Awendjé', [0.3950, 9.4800]),
+  quartier('libreville', 'ondogo', 'Ondogo', [0.3900, 9.4950]),
+  quartier('libreville', 'kalikak', 'Kalikak', [0.4000, 9.4900]),
+  quartier('libreville', 'cite-damas', 'Cité Damas', [0.4120, 9.4700], ['damas']),
+  quartier('libreville', 'beau-sejour', 'Beau Séjour', [0.4050, 9.4850]),
+  quartier('libreville', 'avea', 'Avéa', [0.4100, 9.4950], ['avea 1', 'avea 2']),
+  quartier('libreville', 'rio', 'Rio', [0.4000, 9.4750], ['carrefour rio']),
+  quartier('libreville', 'nzeng-ayong', 'Nzeng-Ayong', [0.4150, 9.5050], ['nzengayong', 'nzeng']),
+  quartier('libreville', 'alibandeng', 'Alibandeng', [0.4250, 9.4800]),
+  quartier('libreville', 'atong-abe', 'Atong Abè', [0.3850, 9.5000]),
+  quartier('libreville', 'ozangue', 'Ozangué', [0.3800, 9.5100]),
+  quartier('libreville', 'sibang', 'Sibang', [0.4000, 9.5100]),
+  quartier('libreville', 'montagne-sainte', 'Montagne Sainte', [0.4150, 9.4600]),
+  quartier('libreville', 'aeroport', 'Aéroport', [0.4500, 9.4200], ['quartier aeroport']),
+  quartier('libreville', 'pk5', 'PK5', [0.3820, 9.5020]),
+  quartier('libreville', 'pk6', 'PK6', [0.3830, 9.5110]),
+  quartier('libreville', 'pk7', 'PK7', [0.3840, 9.5200]),
+  quartier('libreville', 'pk8', 'PK8', [0.3850, 9.5290]),
+  quartier('libreville', 'pk9', 'PK9', [0.3860, 9.5380]),
+  quartier('libreville', 'pk10', 'PK10', [0.3870, 9.5470]),
+  quartier('libreville', 'pk11', 'PK11', [0.3880, 9.5560]),
+  quartier('libreville', 'pk12', 'PK12', [0.3890, 9.5650]),
+
+  // Akanda
+  quartier('akanda', 'angondje', 'Angondjé', [0.4900, 9.4350], ['angondje', 'angonje']),
+  quartier('akanda', 'cap-esterias', 'Cap Estérias', [0.6200, 9.3300]),
+  quartier('akanda', 'cap-santa-clara', 'Cap Santa Clara', [0.5600, 9.3300]),
+  quartier('akanda', 'malibe', 'Malibé', [0.5200, 9.4000], ['malibe 1', 'malibe 2']),
+  quartier('akanda', 'avorbam', 'Avorbam', [0.4800, 9.4400]),
+  quartier('akanda', 'okala', 'Okala', [0.4650, 9.4450]),
+  quartier('akanda', 'ambowe', 'Ambowé', [0.4950, 9.4500]),
+
+  // Owendo
+  quartier('owendo', 'alenakiri', 'Alénakiri', [0.3100, 9.4950]),
+  quartier('owendo', 'akournam', 'Akournam', [0.2800, 9.5100]),
+  quartier('owendo', 'awoungou', 'Awoungou', [0.3050, 9.5100]),
+  quartier('owendo', 'sni-owendo', 'SNI Owendo', [0.3000, 9.5000], ['sni']),
+
+  // Port-Gentil
+  quartier('port-gentil', 'balise', 'Balise', [-0.7000, 8.7800]),
+  quartier('port-gentil', 'grand-village', 'Grand Village', [-0.7150, 8.7750]),
+  quartier('port-gentil', 'boulingui', 'Boulingui', [-0.7300, 8.7900]),
+  quartier('port-gentil', 'ntchengue', 'Ntchengué', [-0.7800, 8.8000]),
+
+  // Franceville
+  quartier('franceville', 'potos', 'Potos', [-1.6300, 13.5800]),
+  quartier('franceville', 'mangoungou', 'Mangoungou', [-1.6400, 13.5900]),
+
+  // Landmarks people use to describe a location ("pas loin du Lycée Léon Mba")
+  landmark('centre-ville', 'lycee-leon-mba', 'Lycée Léon Mba', [0.3960, 9.4500], ['leon mba']),
+  landmark('centre-ville', 'bord-de-mer', 'Bord de mer', [0.3950, 9.4450]),
+  landmark('mont-bouet', 'marche-mont-bouet', 'Marché Mont-Bouët', [0.3900, 9.4610], ['grand marche']),
+  landmark('glass', 'camp-de-gaulle', 'Camp de Gaulle', [0.3800, 9.4470]),
+  landmark('ondogo', 'universite-omar-bongo', 'Université Omar Bongo', [0.4020, 9.4930], ['uob', 'universite']),
+  landmark('aeroport', 'aeroport-leon-mba', 'Aéroport Léon Mba', [0.4586, 9.4123], ['aeroport de libreville']),
+  landmark('angondje', 'stade-amitie', 'Stade de l\'Amitié', [0.4870, 9.4400], ['stade d angondje', 'stade de l amitie']),
+  landmark('sni-owendo', 'port-owendo', 'Port d\'Owendo', [0.2880, 9.4960], ['port d owendo']),
+  landmark('rio', 'carrefour-leon-mba', 'Carrefour Léon Mba', [0.4010, 9.4760]),
+];
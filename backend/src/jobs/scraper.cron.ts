@@ -2,11 +2,19 @@ import cron from 'node-cron';
 import { facebookScraperService } from '../services/facebook-scraper.service';
 import { aiClassifierService } from '../services/ai-classifier.service';
 import { matchingService } from '../services/matching.service';
+import { conversationService } from '../services/conversation.service';
+import { preClassifierService } from '../services/pre-classifier.service';
+import { listingLifecycleService } from '../services/listing-lifecycle.service';
+import { scrapeRunService } from '../services/scrape-run.service';
+import { groupHealthService } from '../services/group-health.service';
+import { savedSearchService } from '../services/saved-search.service';
 
 export class ScraperJob {
   private scrapeTask: cron.ScheduledTask | null = null;
   private enrichTask: cron.ScheduledTask | null = null;
   private matchTask: cron.ScheduledTask | null = null;
+  private lifecycleTask: cron.ScheduledTask | null = null;
+  private searchTask: cron.ScheduledTask | null = null;
 
   /**
    * Start all scheduled jobs
@@ -14,17 +22,30 @@ export class ScraperJob {
   start(): void {
     const intervalMinutes = parseInt(process.env.SCRAPER_INTERVAL_MINUTES || '2');
 
-    // Scraper job - runs every X minutes
+    // Scraper job - checks every X minutes which groups are due, each group has its own interval
     this.scrapeTask = cron.schedule(`*/${intervalMinutes} * * * *`, async () => {
-      console.log(`[${new Date().toISOString()}] 🔄 Running scheduled scrape...`);
       try {
-        await facebookScraperService.scrapeAllGroups();
-        console.log(`[${new Date().toISOString()}] ✅ Scrape completed`);
+        const scraped = await facebookScraperService.scrapeDueGroups();
+        if (scraped > 0) {
+          console.log(`[${new Date().toISOString()}] ✅ Scheduled scrape completed: ${scraped} groups`);
+        }
       } catch (error) {
         console.error(`[${new Date().toISOString()}] ❌ Scrape failed:`, error);
       }
     });
 
+    // Saved searches job - checks every 15 minutes which searches are due, each search has its own interval
+    this.searchTask = cron.schedule('*/15 * * * *', async () => {
+      try {
+        const searched = await savedSearchService.runDueSearches();
+        if (searched > 0) {
+          console.log(`[${new Date().toISOString()}] ✅ Saved searches completed: ${searched} searches`);
+        }
+      } catch (error) {
+        console.error(`[${new Date().toISOString()}] ❌ Saved searches failed:`, error);
+      }
+    });
+
     // Enrichment job - runs every 5 minutes
     this.enrichTask = cron.schedule('*/5 * * * *', async () => {
       console.log(`[${new Date().toISOString()}] 🤖 Running AI enrichment...`);
@@ -47,16 +68,61 @@ export class ScraperJob {
       }
     });
 
+    // Lifecycle job - runs every 6 hours, re-fetches a batch of posts to spot rented or deleted ones
+    this.lifecycleTask = cron.schedule('30 */6 * * *', async () => {
+      console.log(`[${new Date().toISOString()}] 📦 Checking listings availability...`);
+      try {
+        const result = await listingLifecycleService.checkAvailableListings();
+        console.log(`[${new Date().toISOString()}] ✅ Availability check completed: ${result.checked} checked, ${result.changed} no longer available`);
+      } catch (error) {
+        console.error(`[${new Date().toISOString()}] ❌ Availability check failed:`, error);
+      }
+    });
+
     // Cleanup job - runs daily at 3 AM
     cron.schedule('0 3 * * *', async () => {
       console.log(`[${new Date().toISOString()}] 🧹 Running daily cleanup...`);
-      // Implement cleanup logic here
+      try {
+        const expired = await conversationService.expireStaleSessions();
+        console.log(`[${new Date().toISOString()}] ✅ Cleanup completed: ${expired} stale conversations reset`);
+      } catch (error) {
+        console.error(`[${new Date().toISOString()}] ❌ Cleanup failed:`, error);
+      }
+
+      try {
+        const expired = await listingLifecycleService.expireStaleListings();
+        console.log(`[${new Date().toISOString()}] ✅ ${expired} listings expired`);
+      } catch (error) {
+        console.error(`[${new Date().toISOString()}] ❌ Listing expiry failed:`, error);
+      }
+
+      try {
+        const pruned = await scrapeRunService.pruneOldRuns();
+        console.log(`[${new Date().toISOString()}] ✅ ${pruned} old scrape runs deleted`);
+      } catch (error) {
+        console.error(`[${new Date().toISOString()}] ❌ Scrape run pruning failed:`, error);
+      }
+
+      try {
+        const health = await groupHealthService.checkAll();
+        console.log(`[${new Date().toISOString()}] ✅ Groups health: ${health.checked} checked, ${health.unhealthy} unhealthy, ${health.deactivated} deactivated`);
+      } catch (error) {
+        console.error(`[${new Date().toISOString()}] ❌ Groups health check failed:`, error);
+      }
+
+      try {
+        await preClassifierService.train();
+      } catch (error) {
+        console.error(`[${new Date().toISOString()}] ❌ Pre-classifier training failed:`, error);
+      }
     });
 
     console.log('✅ All background jobs started:');
-    console.log(`   - Scraper: every ${intervalMinutes} minutes`);
+    console.log(`   - Scraper: due groups checked every ${intervalMinutes} minutes`);
+    console.log('   - Saved searches: due searches checked every 15 minutes');
     console.log('   - AI Enrichment: every 5 minutes');
     console.log('   - Matching: every 3 minutes');
+    console.log('   - Listing availability: every 6 hours');
     console.log('   - Cleanup: daily at 3 AM');
   }
 
@@ -73,6 +139,12 @@ export class ScraperJob {
     if (this.matchTask) {
       this.matchTask.stop();
     }
+    if (this.lifecycleTask) {
+      this.lifecycleTask.stop();
+    }
+    if (this.searchTask) {
+      this.searchTask.stop();
+    }
     console.log('⏹️ All background jobs stopped');
   }
 
@@ -30,22 +30,54 @@ router.get('/admin/dashboard', (req, res) => adminController.getDashboardStats(r
 
 // Admin routes - Listings
 router.get('/admin/listings', (req, res) => adminController.getListings(req, res));
+router.post('/admin/listings/signals/rebuild', (req, res) => adminController.rebuildListingSignals(req, res));
 router.get('/admin/listings/:id', (req, res) => adminController.getListingById(req, res));
 router.put('/admin/listings/:id', (req, res) => adminController.updateListing(req, res));
 router.delete('/admin/listings/:id', (req, res) => adminController.deleteListing(req, res));
+router.put('/admin/listings/:id/status', (req, res) => adminController.updateListingStatus(req, res));
+router.post('/admin/listings/:id/risk-review', (req, res) => adminController.reviewListingRisk(req, res));
+router.get('/admin/risk/queue', (req, res) => adminController.getRiskQueue(req, res));
+
+// Admin routes - Authors
+router.get('/admin/authors', (req, res) => adminController.getAuthors(req, res));
+router.post('/admin/authors/rebuild', (req, res) => adminController.rebuildAuthors(req, res));
+router.get('/admin/authors/:authorId', (req, res) => adminController.getAuthorById(req, res));
+router.put('/admin/authors/:authorId', (req, res) => adminController.updateAuthor(req, res));
 
 // Admin routes - Groups
 router.get('/admin/groups/search', (req, res) => adminController.searchGroups(req, res));
 router.get('/admin/groups', (req, res) => adminController.getGroups(req, res));
 router.post('/admin/groups', (req, res) => adminController.addGroup(req, res));
+router.post('/admin/groups/health', (req, res) => adminController.checkGroupsHealth(req, res));
 router.put('/admin/groups/:id', (req, res) => adminController.updateGroup(req, res));
 router.delete('/admin/groups/:id', (req, res) => adminController.deleteGroup(req, res));
 router.post('/admin/groups/:id/scrape', (req, res) => adminController.scrapeGroup(req, res));
+router.get('/admin/groups/:id/runs', (req, res) => adminController.getGroupRuns(req, res));
+router.get('/admin/scrape-runs', (req, res) => adminController.getScrapeRuns(req, res));
+
+// Admin routes - Group discovery
+router.get('/admin/discovery/queries', (req, res) => adminController.getDiscoveryQueries(req, res));
+router.post('/admin/discovery/queries', (req, res) => adminController.addDiscoveryQuery(req, res));
+router.put('/admin/discovery/queries/:id', (req, res) => adminController.updateDiscoveryQuery(req, res));
+router.delete('/admin/discovery/queries/:id', (req, res) => adminController.deleteDiscoveryQuery(req, res));
+router.post('/admin/discovery/run', (req, res) => adminController.runDiscovery(req, res));
+router.get('/admin/discovery/candidates', (req, res) => adminController.getGroupCandidates(req, res));
+router.post('/admin/discovery/candidates/:id/add', (req, res) => adminController.addGroupCandidate(req, res));
+router.post('/admin/discovery/candidates/:id/dismiss', (req, res) => adminController.dismissGroupCandidate(req, res));
+
+// Admin routes - Saved post searches
+router.get('/admin/searches', (req, res) => adminController.getSavedSearches(req, res));
+router.post('/admin/searches', (req, res) => adminController.addSavedSearch(req, res));
+router.put('/admin/searches/:id', (req, res) => adminController.updateSavedSearch(req, res));
+router.delete('/admin/searches/:id', (req, res) => adminController.deleteSavedSearch(req, res));
+router.post('/admin/searches/:id/run', (req, res) => adminController.runSavedSearch(req, res));
+router.get('/admin/searches/:id/runs', (req, res) => adminController.getSavedSearchRuns(req, res));
 
 // Admin routes - Actions
 router.post('/admin/actions/scrape', (req, res) => adminController.triggerScrape(req, res));
 router.post('/admin/actions/enrich', (req, res) => adminController.triggerEnrichment(req, res));
 router.post('/admin/actions/match', (req, res) => adminController.triggerMatching(req, res));
+router.post('/admin/actions/train-classifier', (req, res) => adminController.trainPreClassifier(req, res));
 
 // Admin routes - Logs & Config
 router.get('/admin/logs', (req, res) => adminController.getActivityLogs(req, res));
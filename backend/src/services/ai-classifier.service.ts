@@ -1,6 +1,17 @@
 import OpenAI from 'openai';
-import { ScrapedListing, PropertyType } from '@prisma/client';
+import { Amenity, ScrapedListing, PricePeriod, PropertyType, TransactionType } from '@prisma/client';
 import { prisma } from '../config/database';
+import { authorProfileService } from './author-profile.service';
+import { criteriaParserService, ParsedCriteria } from './criteria-parser.service';
+import { duplicateDetectorService } from './duplicate-detector.service';
+import { gazetteerService } from './gazetteer.service';
+import { priceHistoryService } from './price-history.service';
+import { riskScoringService } from './risk-scoring.service';
+import { ruleExtractorService } from './rule-extractor.service';
+import { PROPERTY_TYPES, PROPERTY_TYPE_EMOJIS, PROPERTY_TYPE_LABELS, describePropertyTypes } from '../utils/property-types';
+import { AMENITIES, AMENITY_LABELS, describeAmenities } from '../utils/amenities';
+import { PRICE_PERIOD_SUFFIXES, computeMoveInCost, resolveAgencyFee } from '../utils/rental-terms';
+import { getListingPhones } from '../utils/phone';
 
 export interface ExtractedPropertyData {
   title?: string;
@@ -8,18 +19,29 @@ export interface ExtractedPropertyData {
   location?: string;
   surface?: number;
   rooms?: number;
-  propertyType?: 'HOUSE' | 'APARTMENT' | 'BOTH';
+  propertyType?: PropertyType;
+  transactionType?: 'RENT' | 'SALE' | 'COMMERCIAL_LEASE';
+  pricePeriod?: PricePeriod;
+  depositMonths?: number;    // Caution
+  advanceMonths?: number;    // Avance
+  agencyFeeMonths?: number;  // Frais d'agence in months of rent
+  agencyFee?: number;        // Frais d'agence in FCFA
   contact?: string;
   furnished?: boolean;
+  amenities?: Amenity[];
   description?: string;
   confidence: number;
 }
 
+const TRANSACTION_TYPES = ['RENT', 'SALE', 'COMMERCIAL_LEASE'];
+const PRICE_PERIODS = Object.keys(PRICE_PERIOD_SUFFIXES);
+
 export class AIClassifierService {
   private openai: OpenAI;
   private model: string;
   private fallbackModel: string;
   private confidenceThreshold: number;
+  private extractionMode: string;
 
   constructor() {
     this.openai = new OpenAI({
@@ -28,12 +50,21 @@ export class AIClassifierService {
     this.model = process.env.OPENAI_MODEL || 'gpt-4-turbo-preview';
     this.fallbackModel = process.env.OPENAI_FALLBACK_MODEL || 'gpt-3.5-turbo';
     this.confidenceThreshold = parseFloat(process.env.AI_CONFIDENCE_THRESHOLD || '0.6');
+    // "ai": LLM completed by the rules, "rules": offline mode without any LLM call
+    this.extractionMode = process.env.EXTRACTION_MODE || 'ai';
   }
 
   /**
    * Extract property data from raw text using AI
    */
   async extractPropertyData(text: string): Promise<ExtractedPropertyData> {
+    // Deterministic pre-pass, also the result when the LLM is disabled or unavailable
+    const ruleBased = ruleExtractorService.extract(text);
+
+    if (this.extractionMode === 'rules' || !process.env.OPENAI_API_KEY) {
+      return ruleBased;
+    }
+
     const prompt = `Analyse cette annonce immobilière et extrait les informations structurées.
 
 Texte de l'annonce:
@@ -48,17 +79,28 @@ Retourne UNIQUEMENT un JSON valide avec ce format exact:
   "location": "ville et/ou quartier précis",
   "surface": nombre entier en m² (null si non trouvé),
   "rooms": nombre de pièces (null si non trouvé),
-  "propertyType": "HOUSE" | "APARTMENT" | "BOTH" | null,
+  "propertyType": "STUDIO" | "ROOM" | "APARTMENT" | "HOUSE" | "VILLA" | "DUPLEX" | "LAND" | "COMMERCIAL" | "OFFICE" | null,
+  "transactionType": "RENT" | "SALE" | "COMMERCIAL_LEASE" | null,
+  "pricePeriod": "NIGHT" | "DAY" | "WEEK" | "MONTH" | "YEAR" | null,
+  "depositMonths": nombre de mois de caution (null si non précisé),
+  "advanceMonths": nombre de mois d'avance (null si non précisé),
+  "agencyFeeMonths": frais d'agence en nombre de mois de loyer (null si non précisé),
+  "agencyFee": frais d'agence en FCFA (0 si "sans frais d'agence", null si non précisé),
   "contact": "téléphone ou email trouvé",
   "furnished": boolean (true/false/null),
+  "amenities": [${AMENITIES.map(a => `"${a}"`).join(' | ')}, ...],
   "description": "résumé de 2-3 phrases",
   "confidence": nombre entre 0 et 1 représentant la confiance globale
 }
 
 Règles:
 - Pour le prix: extraire uniquement le nombre en FCFA, sans symboles. Les prix sont en Francs CFA (FCFA)
-- Pour propertyType: "HOUSE" pour maison/villa, "APARTMENT" pour appartement
+- Pour propertyType: "STUDIO" pour un studio, "ROOM" pour une chambre ou "chambre salon", "APARTMENT" pour un appartement, "HOUSE" pour une maison, "VILLA" pour une villa, "DUPLEX" pour un duplex, "LAND" pour un terrain ou une parcelle, "COMMERCIAL" pour un local commercial/magasin/boutique, "OFFICE" pour un bureau
+- Pour transactionType: "RENT" pour une location (loyer mensuel), "SALE" pour une vente, "COMMERCIAL_LEASE" pour un bail commercial (local, magasin, bureau)
+- Pour pricePeriod: la période couverte par le prix, "NIGHT" pour une nuitée, "DAY" par jour, "MONTH" pour un loyer mensuel; null pour une vente
+- "3 mois de caution + 2 mois d'avance + 1 mois d'agence" donne depositMonths 3, advanceMonths 2, agencyFeeMonths 1; le prix reste le loyer mensuel
 - Pour furnished: true si meublé, false si non meublé, null si non précisé
+- Pour amenities: uniquement les équipements cités dans l'annonce, parmi ${AMENITIES.map(a => `${a} (${AMENITY_LABELS[a]})`).join(', ')}
 - confidence doit refléter la qualité des données extraites`;
 
     try {
@@ -77,16 +119,16 @@ Règles:
       const extracted: ExtractedPropertyData = JSON.parse(content);
       
       // Validate extracted data
-      return this.validateExtractedData(extracted);
+      return this.mergeExtractions(ruleBased, this.validateExtractedData(extracted));
     } catch (error) {
       console.error('Error extracting property data:', error);
       
       // Try fallback model
       try {
-        return await this.extractWithFallback(text);
+        return this.mergeExtractions(ruleBased, await this.extractWithFallback(text));
       } catch (fallbackError) {
-        console.error('Fallback extraction also failed:', fallbackError);
-        return { confidence: 0 };
+        console.error('Fallback extraction also failed, using rule-based extraction:', fallbackError);
+        return ruleBased;
       }
     }
   }
@@ -99,7 +141,7 @@ Règles:
 
 Text: "${text.substring(0, 1000)}"
 
-Format: {"price": number|null, "location": string|null, "surface": number|null, "rooms": number|null, "propertyType": "HOUSE"|"APARTMENT"|null, "confidence": 0-1}`;
+Format: {"price": number|null, "location": string|null, "surface": number|null, "rooms": number|null, "propertyType": "STUDIO"|"ROOM"|"APARTMENT"|"HOUSE"|"VILLA"|"DUPLEX"|"LAND"|"COMMERCIAL"|"OFFICE"|null, "transactionType": "RENT"|"SALE"|"COMMERCIAL_LEASE"|null, "confidence": 0-1}`;
 
     const response = await this.openai.chat.completions.create({
       model: this.fallbackModel,
@@ -117,6 +159,27 @@ Format: {"price": number|null, "location": string|null, "surface": number|null,
     return { confidence: 0 };
   }
 
+  /**
+   * LLM values win, the rules fill whatever the LLM left empty.
+   * An empty LLM answer keeps the rule-based confidence.
+   */
+  private mergeExtractions(ruleBased: ExtractedPropertyData, ai: ExtractedPropertyData): ExtractedPropertyData {
+    if (ai.confidence === 0) {
+      return ruleBased;
+    }
+
+    const merged: ExtractedPropertyData = { ...ruleBased };
+    const takeAi = <K extends keyof ExtractedPropertyData>(key: K) => {
+      if (ai[key] !== undefined) merged[key] = ai[key];
+    };
+    for (const key of Object.keys(ai) as Array<keyof ExtractedPropertyData>) {
+      takeAi(key);
+    }
+    // Amenities are cumulative: keep the ones either side found
+    merged.amenities = Array.from(new Set([...(ruleBased.amenities || []), ...(ai.amenities || [])]));
+    return merged;
+  }
+
   /**
    * Validate and normalize extracted data
    */
@@ -127,34 +190,164 @@ Format: {"price": number|null, "location": string|null, "surface": number|null,
       location: data.location || undefined,
       surface: typeof data.surface === 'number' && data.surface > 0 ? Math.round(data.surface) : undefined,
       rooms: typeof data.rooms === 'number' && data.rooms > 0 ? Math.round(data.rooms) : undefined,
-      propertyType: ['HOUSE', 'APARTMENT', 'BOTH'].includes(data.propertyType) ? data.propertyType : undefined,
+      propertyType: PROPERTY_TYPES.includes(data.propertyType) ? data.propertyType : undefined,
+      transactionType: TRANSACTION_TYPES.includes(data.transactionType) ? data.transactionType : undefined,
+      pricePeriod: PRICE_PERIODS.includes(data.pricePeriod) ? data.pricePeriod : undefined,
+      depositMonths: typeof data.depositMonths === 'number' && data.depositMonths >= 0 ? data.depositMonths : undefined,
+      advanceMonths: typeof data.advanceMonths === 'number' && data.advanceMonths >= 0 ? data.advanceMonths : undefined,
+      agencyFeeMonths: typeof data.agencyFeeMonths === 'number' && data.agencyFeeMonths >= 0 ? data.agencyFeeMonths : undefined,
+      agencyFee: typeof data.agencyFee === 'number' && data.agencyFee >= 0 ? Math.round(data.agencyFee) : undefined,
       contact: data.contact || undefined,
       furnished: typeof data.furnished === 'boolean' ? data.furnished : undefined,
+      amenities: Array.isArray(data.amenities)
+        ? data.amenities.filter((a: any) => AMENITIES.includes(a))
+        : undefined,
       description: data.description || undefined,
       confidence: typeof data.confidence === 'number' ? Math.max(0, Math.min(1, data.confidence)) : 0,
     };
   }
 
+  /**
+   * Understand the search criteria a user describes in a free-text message.
+   * Falls back to the rule-based parser when the LLM is unavailable.
+   */
+  async extractSearchCriteria(message: string): Promise<ParsedCriteria> {
+    const ruleBased = criteriaParserService.parse(message);
+
+    if (this.extractionMode === 'rules' || !process.env.OPENAI_API_KEY) {
+      return ruleBased;
+    }
+
+    const prompt = `Un utilisateur décrit sur WhatsApp le bien immobilier qu'il recherche au Gabon.
+
+Message:
+"""
+${message.substring(0, 1000)}
+"""
+
+Retourne UNIQUEMENT un JSON valide avec ce format exact:
+{
+  "transactionType": "RENT" | "SALE" | "COMMERCIAL_LEASE" | null,
+  "propertyTypes": ["STUDIO" | "ROOM" | "APARTMENT" | "HOUSE" | "VILLA" | "DUPLEX" | "LAND" | "COMMERCIAL" | "OFFICE", ...] (liste vide si non précisé),
+  "minPrice": nombre entier en FCFA (null si non précisé),
+  "maxPrice": nombre entier en FCFA (null si non précisé),
+  "maxMoveInCost": budget maximum à l'entrée (caution + avance + frais d'agence) en FCFA (null si non précisé),
+  "locations": ["ville ou quartier", ...] (liste vide si non précisé),
+  "zoneRadii": {"zone": rayon en km} (seulement si un rayon est précisé),
+  "minRooms": nombre minimum de pièces (null si non précisé),
+  "minSurface": surface minimum en m² (null si non précisée),
+  "furnished": boolean (true/false/null),
+  "requiredAmenities": [équipements indispensables, ...],
+  "preferredAmenities": [équipements souhaités si possible, ...],
+  "excludeAgencies": boolean (true s'il ne veut pas passer par une agence, null sinon)
+}
+
+Règles:
+- Les montants sont en Francs CFA: "250 mille" = 250000, "1,5 million" = 1500000, "150k" = 150000
+- Un budget approximatif ("vers", "environ") donne minPrice à -20% et maxPrice à +20%
+- Un budget "maximum" donne minPrice à 0
+- Un montant pour l'entrée, la caution ou l'emménagement va dans maxMoveInCost, pas dans le loyer
+- "près de Charbonnages" ou "pas loin du Lycée Léon Mba" donne la zone "Charbonnages" ou "Lycée Léon Mba"
+- "2 chambres salon" correspond à 3 pièces, un studio à 1 pièce
+- Pour propertyTypes: "ROOM" pour une chambre ou "chambre salon", "LAND" pour un terrain, "COMMERCIAL" pour un local commercial/magasin, "OFFICE" pour un bureau; cite tous les types acceptés
+- Pour transactionType: "RENT" s'il veut louer, "SALE" s'il veut acheter, "COMMERCIAL_LEASE" pour un local commercial ou un bureau
+- Équipements possibles: ${AMENITIES.map(a => `${a} (${AMENITY_LABELS[a]})`).join(', ')}
+- Un équipement demandé "si possible", "de préférence" ou "idéalement" va dans preferredAmenities, sinon dans requiredAmenities
+- "sans frais d'agence", "pas d'agence" ou "directement avec le propriétaire" donne excludeAgencies à true
+- N'invente aucune information absente du message`;
+
+    try {
+      const response = await this.openai.chat.completions.create({
+        model: this.fallbackModel,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0,
+        response_format: { type: 'json_object' },
+      });
+
+      const content = response.choices[0]?.message?.content;
+      if (!content) {
+        throw new Error('Empty response from OpenAI');
+      }
+
+      // Anything the LLM missed can still come from the rules
+      return { ...ruleBased, ...this.validateCriteriaData(JSON.parse(content)) };
+    } catch (error) {
+      console.error('Error extracting search criteria:', error);
+      return ruleBased;
+    }
+  }
+
+  /**
+   * Validate and normalize criteria returned by the LLM
+   */
+  private validateCriteriaData(data: any): ParsedCriteria {
+    const positiveInt = (value: any) => typeof value === 'number' && value > 0 ? Math.round(value) : undefined;
+
+    return criteriaParserService.compact({
+      transactionType: TRANSACTION_TYPES.includes(data.transactionType) ? data.transactionType : undefined,
+      propertyTypes: Array.isArray(data.propertyTypes)
+        ? data.propertyTypes.filter((t: any) => PROPERTY_TYPES.includes(t))
+        : undefined,
+      minPrice: typeof data.minPrice === 'number' && data.minPrice >= 0 ? Math.round(data.minPrice) : undefined,
+      maxPrice: positiveInt(data.maxPrice),
+      maxMoveInCost: positiveInt(data.maxMoveInCost),
+      locations: Array.isArray(data.locations)
+        ? data.locations.filter((l: any) => typeof l === 'string' && l.trim()).map((l: string) => l.trim())
+        : undefined,
+      zoneRadii: data.zoneRadii && typeof data.zoneRadii === 'object'
+        ? Object.fromEntries(Object.entries(data.zoneRadii).filter(([, km]) => typeof km === 'number' && km > 0)) as Record<string, number>
+        : undefined,
+      minRooms: positiveInt(data.minRooms),
+      minSurface: positiveInt(data.minSurface),
+      furnished: typeof data.furnished === 'boolean' ? data.furnished : undefined,
+      requiredAmenities: Array.isArray(data.requiredAmenities)
+        ? data.requiredAmenities.filter((a: any) => AMENITIES.includes(a))
+        : undefined,
+      preferredAmenities: Array.isArray(data.preferredAmenities)
+        ? data.preferredAmenities.filter((a: any) => AMENITIES.includes(a))
+        : undefined,
+      excludeAgencies: data.excludeAgencies === true ? true : undefined,
+    });
+  }
+
   /**
    * Enrich a scraped listing with AI
    */
   async enrichListing(listing: ScrapedListing): Promise<ScrapedListing> {
+    if (listing.offerCount) {
+      return this.enrichOffers(listing);
+    }
+
+    // Not worth an LLM call, unless an admin said otherwise
+    if (listing.preClassifierPassed === false && !listing.validatedByAdmin) {
+      return listing;
+    }
+
     const extracted = await this.extractPropertyData(listing.originalText);
     
     // Check if listing is valid
     const isValid = this.isValidListing(extracted);
+    const isSale = extracted.transactionType === 'SALE';
 
     const updated = await prisma.scrapedListing.update({
       where: { id: listing.id },
       data: {
         title: extracted.title,
         price: extracted.price,
-        location: extracted.location,
+        location: extracted.location ? gazetteerService.normalizeLocation(extracted.location) : extracted.location,
         surface: extracted.surface,
         rooms: extracted.rooms,
         propertyType: extracted.propertyType as PropertyType | undefined,
+        transactionType: extracted.transactionType as TransactionType | undefined,
+        pricePeriod: isSale ? undefined : extracted.pricePeriod,
+        depositMonths: isSale ? undefined : extracted.depositMonths,
+        advanceMonths: isSale ? undefined : extracted.advanceMonths,
+        agencyFee: isSale ? undefined : resolveAgencyFee(extracted.price, extracted),
+        moveInCost: isSale ? undefined : computeMoveInCost(extracted.price, extracted),
         contact: extracted.contact,
+        phones: getListingPhones({ contact: extracted.contact || null, originalText: listing.originalText }),
         furnished: extracted.furnished,
+        amenities: extracted.amenities || [],
         description: extracted.description,
         extractedData: extracted as any,
         aiEnriched: true,
@@ -164,7 +357,69 @@ Format: {"price": number|null, "location": string|null, "surface": number|null,
     });
 
     console.log(`✨ Listing enriched: ${listing.postId} (confidence: ${extracted.confidence.toFixed(2)})`);
-    return updated;
+
+    // Offers are counted in the profile through their parent post
+    if (updated.authorId && !updated.parentId) {
+      await authorProfileService.refreshProfile(updated.authorId);
+    }
+    if (isValid && !listing.aiEnriched && !updated.parentId) {
+      await this.countValidPost(updated.groupId);
+    }
+
+    if (!isValid) {
+      return updated;
+    }
+
+    // Reposts and cross-group copies join the cluster of the first listing seen,
+    // a repost at a lower price is news for the users who already got the property
+    const clustered = await duplicateDetectorService.assignCluster(updated);
+    const scored = await riskScoringService.scoreListing(clustered);
+    await priceHistoryService.recordObservation(scored, { notify: !riskScoringService.isHidden(scored) });
+    return scored;
+  }
+
+  /**
+   * A multi-offer post is enriched offer by offer, the parent itself is never extracted
+   */
+  private async enrichOffers(parent: ScrapedListing): Promise<ScrapedListing> {
+    const offers = await prisma.scrapedListing.findMany({
+      where: { parentId: parent.id, aiEnriched: false },
+    });
+
+    for (const offer of offers) {
+      try {
+        await this.enrichListing(offer);
+      } catch (error) {
+        console.error(`Error enriching offer ${offer.postId}:`, error);
+      }
+    }
+
+    const enriched = await prisma.scrapedListing.update({
+      where: { id: parent.id },
+      data: { aiEnriched: true },
+    });
+
+    // A multi-offer post counts once for its group, as soon as one of its offers is real
+    if (!parent.aiEnriched && await prisma.scrapedListing.count({ where: { parentId: parent.id, isValid: true } }) > 0) {
+      await this.countValidPost(parent.groupId);
+    }
+
+    if (enriched.authorId) {
+      await authorProfileService.refreshProfile(enriched.authorId);
+    }
+    return enriched;
+  }
+
+  /**
+   * Count a post that turned out to be a real listing in the stats of its group
+   */
+  private async countValidPost(groupId: string | null): Promise<void> {
+    if (!groupId) return;
+    // The group may have been deleted since the scrape
+    await prisma.facebookGroup.updateMany({
+      where: { id: groupId },
+      data: { validPosts: { increment: 1 } },
+    });
   }
 
   /**
@@ -181,8 +436,9 @@ Format: {"price": number|null, "location": string|null, "surface": number|null,
       return false;
     }
 
-    // Price should be reasonable in FCFA (10 000 - 10 000 000 FCFA)
-    if (data.price && (data.price < 10000 || data.price > 10000000)) {
+    // Price should be reasonable in FCFA (10 000 - 10 000 000 FCFA, up to 2 000 000 000 for sales)
+    const maxPrice = data.transactionType === 'SALE' ? 2000000000 : 10000000;
+    if (data.price && (data.price < 10000 || data.price > maxPrice)) {
       return false;
     }
 
@@ -194,21 +450,28 @@ Format: {"price": number|null, "location": string|null, "surface": number|null,
    */
   async generateUserMessage(listing: ScrapedListing, userCriteria: any): Promise<string> {
     const data = listing.extractedData as ExtractedPropertyData;
+
+    if (this.extractionMode === 'rules' || !process.env.OPENAI_API_KEY) {
+      return this.generateDefaultMessage(listing, userCriteria);
+    }
     
     const prompt = `Génère un message WhatsApp court et enthousiaste pour cette annonce immobilière.
 
 Détails de l'annonce:
-- Type: ${data.propertyType === 'HOUSE' ? 'Maison' : 'Appartement'}
-- Prix: ${data.price} FCFA
+- Type: ${data.propertyType ? PROPERTY_TYPE_LABELS[data.propertyType] : 'Non précisé'}${data.transactionType === 'SALE' ? ' à vendre' : data.transactionType === 'COMMERCIAL_LEASE' ? ' (bail commercial)' : ''}
+- Prix: ${data.price} FCFA${data.pricePeriod ? PRICE_PERIOD_SUFFIXES[data.pricePeriod] : ''}
+${listing.moveInCost ? `- Coût d'entrée (caution, avance, frais d'agence): ${listing.moveInCost} FCFA` : ''}
 - Surface: ${data.surface}m²
 - Pièces: ${data.rooms}
 - Localisation: ${data.location}
 ${data.furnished ? '- Meublé' : ''}
+${data.amenities?.length ? `- Équipements: ${describeAmenities(data.amenities)}` : ''}
 
 Critères de l'utilisateur:
 - Budget: ${userCriteria.minPrice} - ${userCriteria.maxPrice} FCFA
+${userCriteria.maxMoveInCost ? `- Budget d'entrée maximum: ${userCriteria.maxMoveInCost} FCFA` : ''}
 - Zones: ${userCriteria.locations?.join(', ')}
-- Type: ${userCriteria.propertyType}
+- Type: ${describePropertyTypes(userCriteria.propertyTypes)}
 
 Instructions:
 - Maximum 2-3 phrases courtes
@@ -242,8 +505,8 @@ Réponds uniquement avec le texte du message, sans formatage JSON.`;
     
     return `🏠 *Nouvelle annonce trouvée !*
 
-${data.propertyType === 'HOUSE' ? '🏡' : '🏢'} ${data.rooms} pièces • ${data.surface}m²
-💰 ${data.price?.toLocaleString()} FCFA
+${data.propertyType ? PROPERTY_TYPE_EMOJIS[data.propertyType] : '🏠'} ${data.rooms} pièces • ${data.surface}m²
+💰 ${data.price?.toLocaleString()} FCFA${data.pricePeriod ? PRICE_PERIOD_SUFFIXES[data.pricePeriod] : ''}${listing.moveInCost ? `\n💳 Entrée : ${listing.moveInCost.toLocaleString()} FCFA` : ''}
 📍 ${data.location}
 
 Cette annonce correspond à vos critères ! Souhaitez-vous plus d'informations ?`;
@@ -257,6 +520,8 @@ Cette annonce correspond à vos critères ! Souhaitez-vous plus d'informations ?
       where: {
         aiEnriched: false,
         isValid: true,
+        // Offers are enriched through their parent, unless the post as a whole was rejected
+        OR: [{ parentId: null }, { parent: { isValid: false } }],
       },
       take: 50, // Process in batches
     });
@@ -0,0 +1,141 @@
+import { prisma } from '../config/database';
+
+export type BudgetStatus = 'OK' | 'AT_RISK' | 'EXHAUSTED';
+
+export interface ApiUsageSummary {
+  today: number;
+  month: number;
+  monthlyLimit: number | null;     // From RAPIDAPI_MONTHLY_LIMIT, or the rate-limit headers
+  remaining: number | null;        // As last reported by RapidAPI
+  projectedMonthEnd: number;       // Month usage extrapolated from the pace so far
+  budgetStatus: BudgetStatus;
+  rateLimitedToday: number;
+  daily: Array<{ date: string; requests: number; failures: number }>;
+}
+
+/**
+ * Counts the calls made to the RapidAPI scraper and keeps scraping within the monthly plan:
+ * once the month-end projection goes over budget, low-priority groups are paused
+ */
+export class ApiQuotaService {
+  private monthlyLimit: number;
+  private alertRatio: number;
+  private throttlePriority: number;
+  private cached: { summary: ApiUsageSummary; at: number } | null = null;
+
+  constructor() {
+    // 0 = rely on the x-ratelimit-requests-limit header
+    this.monthlyLimit = parseInt(process.env.RAPIDAPI_MONTHLY_LIMIT || '0');
+    // Share of the limit the projection may reach before throttling
+    this.alertRatio = parseFloat(process.env.RAPIDAPI_BUDGET_ALERT_RATIO || '0.9');
+    // Groups up to this priority are paused while the budget is at risk
+    this.throttlePriority = parseInt(process.env.RAPIDAPI_THROTTLE_PRIORITY || '0');
+  }
+
+  /**
+   * Count a call from its HTTP status and response headers (status null for network errors)
+   */
+  async record(status: number | null, headers: Record<string, any> = {}): Promise<void> {
+    const limit = parseInt(headers['x-ratelimit-requests-limit']);
+    const remaining = parseInt(headers['x-ratelimit-requests-remaining']);
+    const reset = parseInt(headers['x-ratelimit-requests-reset']);
+
+    const quota = {
+      ...(Number.isFinite(limit) ? { quotaLimit: limit } : {}),
+      ...(Number.isFinite(remaining) ? { quotaRemaining: remaining } : {}),
+      ...(Number.isFinite(reset) ? { quotaResetAt: new Date(Date.now() + reset * 1000) } : {}),
+    };
+    const failed = status === null || status >= 400 ? 1 : 0;
+    const rateLimited = status === 429 ? 1 : 0;
+
+    await prisma.apiUsage.upsert({
+      where: { date: this.startOfDay(new Date()) },
+      create: { date: this.startOfDay(new Date()), requests: 1, failures: failed, rateLimited, ...quota },
+      update: {
+        requests: { increment: 1 },
+        failures: { increment: failed },
+        rateLimited: { increment: rateLimited },
+        ...quota,
+      },
+    });
+  }
+
+  /**
+   * Daily and monthly usage with the month-end projection
+   */
+  async getUsage(): Promise<ApiUsageSummary> {
+    if (this.cached && Date.now() - this.cached.at < 60 * 1000) {
+      return this.cached.summary;
+    }
+
+    const now = new Date();
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const daysInMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0)).getUTCDate();
+    const elapsedDays = (now.getTime() - monthStart.getTime()) / (24 * 60 * 60 * 1000);
+
+    const days = await prisma.apiUsage.findMany({
+      where: { date: { gte: monthStart } },
+      orderBy: { date: 'asc' },
+    });
+
+    const today = days.find(day => day.date.getTime() === this.startOfDay(now).getTime());
+    const month = days.reduce((sum, day) => sum + day.requests, 0);
+    const latest = [...days].reverse().find(day => day.quotaRemaining !== null);
+    const monthlyLimit = this.monthlyLimit || latest?.quotaLimit || null;
+    // The first hours of a month say little about its pace
+    const projectedMonthEnd = Math.round(elapsedDays >= 1 ? (month / elapsedDays) * daysInMonth : month * daysInMonth);
+
+    let budgetStatus: BudgetStatus = 'OK';
+    if (latest?.quotaRemaining === 0 || (monthlyLimit && month >= monthlyLimit)) {
+      budgetStatus = 'EXHAUSTED';
+    } else if (monthlyLimit && projectedMonthEnd > monthlyLimit * this.alertRatio) {
+      budgetStatus = 'AT_RISK';
+    }
+
+    if (this.cached && this.cached.summary.budgetStatus !== budgetStatus && budgetStatus !== 'OK') {
+      console.warn(`⚠️ RapidAPI budget ${budgetStatus}: ${month} requests this month, ${projectedMonthEnd} projected for ${monthlyLimit}`);
+    }
+
+    const summary: ApiUsageSummary = {
+      today: today?.requests || 0,
+      month,
+      monthlyLimit,
+      remaining: latest?.quotaRemaining ?? null,
+      projectedMonthEnd,
+      budgetStatus,
+      rateLimitedToday: today?.rateLimited || 0,
+      daily: days.map(day => ({
+        date: day.date.toISOString().substring(0, 10),
+        requests: day.requests,
+        failures: day.failures,
+      })),
+    };
+
+    this.cached = { summary, at: Date.now() };
+    return summary;
+  }
+
+  /**
+   * Whether a group may be scraped with the current budget
+   */
+  async canScrape(priority: number): Promise<boolean> {
+    const { budgetStatus } = await this.getUsage();
+    if (budgetStatus === 'EXHAUSTED') return false;
+    if (budgetStatus === 'AT_RISK') return priority > this.throttlePriority;
+    return true;
+  }
+
+  /**
+   * Optional calls (re-checking old posts...) only run while the budget is fine
+   */
+  async canSpendOptional(): Promise<boolean> {
+    const { budgetStatus } = await this.getUsage();
+    return budgetStatus === 'OK';
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+}
+
+export const apiQuotaService = new ApiQuotaService();
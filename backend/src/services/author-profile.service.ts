@@ -0,0 +1,163 @@
+import { AuthorKind, AuthorProfile, Prisma, ScrapedListing } from '@prisma/client';
+import { prisma } from '../config/database';
+import { extractGabonPhones } from '../utils/phone';
+import { normalizeText } from '../utils/text';
+
+export interface AuthorKindSignals {
+  agencyPosts: number;  // Posts written like an agency: frais d'agence, "nos offres", several offers...
+  ownerPosts: number;   // Posts written by the owner: "sans frais d'agence", "je loue ma maison"...
+  phones: number;
+  groups: number;
+}
+
+// Matched against accent-free lowercase text
+const OWNER_PATTERN = /sans (frais d agence|agence|intermediaire|commission|demarcheur)|pas (de frais )?d agence|\bproprietaire\b|\bparticulier\b|je (loue|vends|mets en location|mets en vente)|\bma (maison|villa|parcelle)\b/;
+const AGENCY_PATTERN = /\bagences?\b|frais d agence|\bcommission\b|\bcabinet\b|\bimmobiliere?\b|\bimmo\b|\bagent immobilier\b|\bdemarcheurs?\b|nos (offres|biens|appartements|maisons)|nous (proposons|disposons|mettons)/;
+
+/**
+ * Profiles of the people posting in the monitored groups, aggregated from their listings,
+ * telling agencies from private owners
+ */
+export class AuthorProfileService {
+  private agencyMinPosts: number;
+
+  constructor() {
+    // Private owners rarely have that many properties to post
+    this.agencyMinPosts = parseInt(process.env.AGENCY_MIN_POSTS || '15');
+  }
+
+  /**
+   * Recompute the profile of an author from all their posts
+   */
+  async refreshProfile(authorId: string): Promise<AuthorProfile> {
+    // Offers of a multi-offer post belong to their parent post
+    const where: Prisma.ScrapedListingWhereInput = { authorId, parentId: null };
+    const [posts, totalPosts, validPosts, existing] = await Promise.all([
+      prisma.scrapedListing.findMany({
+        where,
+        orderBy: { scrapedAt: 'desc' },
+        take: 500,
+        select: {
+          authorName: true, groupId: true, originalText: true, contact: true,
+          agencyFee: true, offerCount: true, postedAt: true, scrapedAt: true,
+        },
+      }),
+      prisma.scrapedListing.count({ where }),
+      prisma.scrapedListing.count({ where: { ...where, isValid: true } }),
+      prisma.authorProfile.findUnique({ where: { authorId } }),
+    ]);
+
+    const phones = Array.from(new Set(posts.flatMap(post => [
+      ...extractGabonPhones(post.contact || ''),
+      ...extractGabonPhones(post.originalText),
+    ].map(match => match.phone))));
+    const groupIds = Array.from(new Set(posts.map(post => post.groupId).filter((id): id is string => Boolean(id))));
+    const dates = posts.map(post => (post.postedAt || post.scrapedAt).getTime());
+
+    const signals: AuthorKindSignals = { agencyPosts: 0, ownerPosts: 0, phones: phones.length, groups: groupIds.length };
+    for (const post of posts) {
+      const text = normalizeText(post.originalText).replace(/[’']/g, ' ');
+      const isOwner = OWNER_PATTERN.test(text) || post.agencyFee === 0;
+      // "sans frais d'agence" must not count as an agency mention
+      const isAgency = AGENCY_PATTERN.test(text.replace(new RegExp(OWNER_PATTERN.source, 'g'), ' '))
+        || Boolean(post.agencyFee && post.agencyFee > 0)
+        || Boolean(post.offerCount);
+      if (isAgency) signals.agencyPosts++;
+      else if (isOwner) signals.ownerPosts++;
+    }
+
+    const data = {
+      name: posts.find(post => post.authorName)?.authorName ?? existing?.name,
+      totalPosts,
+      validPosts,
+      groupIds,
+      phones,
+      firstPostAt: dates.length > 0 ? new Date(Math.min(...dates)) : null,
+      lastPostAt: dates.length > 0 ? new Date(Math.max(...dates)) : null,
+      kind: existing?.kindSetByAdmin ? existing.kind : this.classify(signals, totalPosts),
+      kindSignals: signals as unknown as Prisma.InputJsonObject,
+    };
+
+    return prisma.authorProfile.upsert({
+      where: { authorId },
+      create: { authorId, ...data },
+      update: data,
+    });
+  }
+
+  /**
+   * Agency when most of the posts read like one or the volume is out of reach of an owner
+   */
+  classify(signals: AuthorKindSignals, totalPosts: number): AuthorKind {
+    const classified = signals.agencyPosts + signals.ownerPosts;
+    if (signals.agencyPosts > 0 && signals.agencyPosts >= signals.ownerPosts && signals.agencyPosts / Math.max(classified, 1) >= 0.5) {
+      return 'AGENCY';
+    }
+    if (totalPosts >= this.agencyMinPosts || signals.phones >= 3) {
+      return 'AGENCY';
+    }
+    if (signals.ownerPosts > 0) {
+      return 'OWNER';
+    }
+    return 'UNKNOWN';
+  }
+
+  /**
+   * Whether a listing comes with agency fees: stated in the post, or posted by an agency.
+   * "Sans frais d'agence" wins over the author's profile; unknown authors are not agencies.
+   */
+  async isAgencyListing(listing: ScrapedListing): Promise<boolean> {
+    if (listing.agencyFee !== null) {
+      return listing.agencyFee > 0;
+    }
+    if (!listing.authorId) {
+      return false;
+    }
+
+    const profile = await prisma.authorProfile.findUnique({
+      where: { authorId: listing.authorId },
+      select: { kind: true },
+    });
+    return profile?.kind === 'AGENCY';
+  }
+
+  /**
+   * Rebuild every profile, e.g. for listings scraped before profiles existed
+   */
+  async rebuildAll(): Promise<number> {
+    const authors = await prisma.scrapedListing.findMany({
+      where: { authorId: { not: null }, parentId: null },
+      distinct: ['authorId'],
+      select: { authorId: true },
+    });
+
+    let rebuilt = 0;
+    for (const { authorId } of authors) {
+      try {
+        await this.refreshProfile(authorId as string);
+        rebuilt++;
+      } catch (error) {
+        console.error(`Error refreshing author profile ${authorId}:`, error);
+      }
+    }
+
+    return rebuilt;
+  }
+
+  /**
+   * Manual classification; null goes back to the automatic one
+   */
+  async setKind(authorId: string, kind: AuthorKind | null): Promise<AuthorProfile> {
+    if (kind === null) {
+      await prisma.authorProfile.update({ where: { authorId }, data: { kindSetByAdmin: false } });
+      return this.refreshProfile(authorId);
+    }
+
+    return prisma.authorProfile.update({
+      where: { authorId },
+      data: { kind, kindSetByAdmin: true },
+    });
+  }
+}
+
+export const authorProfileService = new AuthorProfileService();
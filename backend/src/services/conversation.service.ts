@@ -1,35 +1,97 @@
-import { ConversationState, Direction, MessageType, User } from '@prisma/client';
+import { Amenity, ConversationState, Direction, MessageType, Prisma, PropertyCriteria, TransactionType, User } from '@prisma/client';
 import { prisma } from '../config/database';
 import { whapiService } from './whapi.service';
+import { aiClassifierService } from './ai-classifier.service';
+import { gazetteerService } from './gazetteer.service';
+import { ParsedCriteria } from './criteria-parser.service';
+import { normalizeText } from '../utils/text';
+import { describePropertyTypes } from '../utils/property-types';
+import { describeAmenities } from '../utils/amenities';
+
+export type CriteriaStep = 'transaction' | 'type' | 'price' | 'moveIn' | 'zones' | 'rooms' | 'surface' | 'amenities';
 
 export interface MessageContext {
-  step: number;
-  data: Partial<{
-    propertyType: string;
-    minPrice: number;
-    maxPrice: number;
-    locations: string[];
-    minRooms: number;
-    minSurface: number;
-  }>;
+  step: CriteriaStep;
+  data: ParsedCriteria;
+  skippedSteps?: CriteriaStep[]; // Questions the user chose to ignore
+  awaitingResume?: boolean;
+  editingStep?: CriteriaStep;    // Single criterion being edited from CONFIRMING or ACTIVE
 }
 
+type CriteriaValues = Partial<Pick<PropertyCriteria,
+  'transactionType' | 'propertyTypes' | 'minPrice' | 'maxPrice' | 'maxMoveInCost' | 'locations' | 'minRooms' | 'minSurface'
+  | 'requiredAmenities' | 'preferredAmenities' | 'excludeAgencies'>>
+  & { zoneRadii?: Record<string, number> };
+
+// Onboarding questions, in the order they are asked
+const STEPS: CriteriaStep[] = ['transaction', 'type', 'price', 'moveIn', 'zones', 'rooms', 'surface', 'amenities'];
+
+// Criteria fields filled by each collection step
+const STEP_FIELDS: Record<CriteriaStep, Array<keyof CriteriaValues>> = {
+  transaction: ['transactionType'],
+  type: ['propertyTypes'],
+  price: ['minPrice', 'maxPrice'],
+  moveIn: ['maxMoveInCost'],
+  zones: ['locations'],
+  rooms: ['minRooms'],
+  surface: ['minSurface'],
+  amenities: ['requiredAmenities', 'preferredAmenities'],
+};
+
+// Commands selecting a single criterion to edit
+const EDIT_COMMANDS: Record<string, CriteriaStep> = {
+  transaction: 'transaction',
+  type: 'type',
+  prix: 'price',
+  budget: 'price',
+  entree: 'moveIn',
+  caution: 'moveIn',
+  zone: 'zones',
+  zones: 'zones',
+  piece: 'rooms',
+  pieces: 'rooms',
+  surface: 'surface',
+  equipement: 'amenities',
+  equipements: 'amenities',
+};
+
+// Commands that abandon a pending single-criterion edit instead of being read as its answer
+const EDIT_ESCAPE_COMMANDS = ['statut', 'status', 'pause', 'stop', 'aide', 'help', 'modifier', 'change', 'oui', 'yes', 'ok', 'parfait'];
+
+// Words meaning "no preference" in an answer
+const SKIP_WORDS = ['pas', 'ignore', 'ignorer', 'peu'];
+const ANY_WORDS = ['deux', 'peu', 'tout', 'tous'];
+
+const EDIT_CANCEL_HINT = 'Tapez *ANNULER* pour garder la valeur actuelle.';
+
+const TRANSACTION_LABELS: Record<TransactionType, string> = {
+  RENT: 'Location',
+  SALE: 'Achat',
+  COMMERCIAL_LEASE: 'Bail commercial',
+};
+
 export class ConversationService {
-  private contexts: Map<string, MessageContext> = new Map();
+  private resumeAfterMs: number;
+  private sessionExpiryMs: number;
+
+  constructor() {
+    this.resumeAfterMs = parseInt(process.env.CONVERSATION_RESUME_MINUTES || '30') * 60 * 1000;
+    this.sessionExpiryMs = parseInt(process.env.CONVERSATION_EXPIRY_HOURS || '72') * 60 * 60 * 1000;
+  }
 
   /**
    * Handle incoming WhatsApp message
    */
   async handleIncomingMessage(whatsappNumber: string, message: string, messageId?: string): Promise<void> {
     // Find or create user
-    let user = await prisma.user.findUnique({
+    const user = await prisma.user.findUnique({
       where: { whatsappNumber },
       include: { criteria: true },
     });
 
     if (!user) {
-      user = await this.createNewUser(whatsappNumber);
-      await this.sendWelcomeMessage(whatsappNumber);
+      const newUser = await this.createNewUser(whatsappNumber);
+      await this.sendWelcomeMessage(newUser);
       return;
     }
 
@@ -84,7 +146,6 @@ export class ConversationService {
     await prisma.propertyCriteria.create({
       data: {
         userId: user.id,
-        propertyType: 'BOTH',
         locations: [],
       },
     });
@@ -95,27 +156,22 @@ export class ConversationService {
   /**
    * Send welcome message to new user
    */
-  private async sendWelcomeMessage(to: string): Promise<void> {
+  private async sendWelcomeMessage(user: User): Promise<void> {
     const message = `🏠 *Bienvenue sur ImmoAlert!*
 
 Je suis votre assistant immobilier personnel qui surveille les groupes Facebook pour vous.
 
 Je vais vous envoyer instantanément les annonces qui correspondent à vos critères !
 
-Pour commencer, dites-moi : cherchez-vous une *maison* 🏡 ou un *appartement* 🏢 ?
+Pour commencer, décrivez-moi ce que vous cherchez, par exemple :
+_"Je cherche un appartement 3 pièces meublé à Akanda vers 250 mille"_
 
-(ou les deux - tapez "les deux")`;
+Ou dites-moi simplement : vous cherchez à *louer* 🔑 ou à *acheter* 🏷️ ?`;
 
-    await this.sendMessage(to, message);
-
-    // Update user state
-    await prisma.user.update({
-      where: { whatsappNumber: to },
-      data: { conversationState: 'COLLECTING_CRITERIA' },
-    });
+    await this.sendMessage(user.whatsappNumber, message);
 
-    // Initialize context
-    this.contexts.set(to, { step: 1, data: {} });
+    // Update user state and initialize context
+    await this.saveContext(user.id, { step: STEPS[0], data: {} }, 'COLLECTING_CRITERIA');
   }
 
   /**
@@ -125,12 +181,9 @@ Pour commencer, dites-moi : cherchez-vous une *maison* 🏡 ou un *appartement*
     const text = message.toLowerCase().trim();
 
     if (text === 'modifier' || text === 'change' || text === 'critères') {
-      await prisma.user.update({
-        where: { id: user.id },
-        data: { conversationState: 'COLLECTING_CRITERIA' },
-      });
-      this.contexts.set(user.whatsappNumber, { step: 1, data: {} });
-      await this.sendMessage(user.whatsappNumber, 'D accord, modifions vos critères. Cherchez-vous une maison ou un appartement ?');
+      await this.saveContext(user.id, { step: STEPS[0], data: {} }, 'COLLECTING_CRITERIA');
+      await this.sendMessage(user.whatsappNumber, 'D accord, modifions vos critères.');
+      await this.sendStepPrompt(user.whatsappNumber, STEPS[0]);
     } else if (text === 'statut' || text === 'status') {
       await this.sendCurrentStatus(user);
     } else if (text === 'aide' || text === 'help') {
@@ -150,104 +203,310 @@ Pour commencer, dites-moi : cherchez-vous une *maison* 🏡 ou un *appartement*
    * Handle criteria collection flow
    */
   private async handleCriteriaCollection(user: User, message: string): Promise<void> {
-    const context = this.contexts.get(user.whatsappNumber) || { step: 1, data: {} };
+    let context = this.loadContext(user);
     const text = message.toLowerCase().trim();
+    const idleMs = user.contextUpdatedAt ? Date.now() - user.contextUpdatedAt.getTime() : 0;
+    const hasProgress = context.step !== STEPS[0] || Object.keys(context.data).length > 0;
+
+    // Stale session - start over
+    if (idleMs > this.sessionExpiryMs) {
+      context = { step: STEPS[0], data: {} };
+      await this.saveContext(user.id, context);
+      await this.sendMessage(user.whatsappNumber, '⌛ Votre précédente configuration a expiré, reprenons depuis le début.');
+      await this.sendStepPrompt(user.whatsappNumber, context.step, context.data);
+      return;
+    }
 
-    switch (context.step) {
-      case 1: // Property type
-        if (text.includes('maison') || text.includes('house')) {
-          context.data.propertyType = 'HOUSE';
-        } else if (text.includes('appartement') || text.includes('appart') || text.includes('apartment')) {
-          context.data.propertyType = 'APARTMENT';
-        } else if (text.includes('deux') || text.includes('both') || text.includes('tout')) {
-          context.data.propertyType = 'BOTH';
-        } else {
-          await this.sendMessage(user.whatsappNumber, 'Je n ai pas compris. Veuillez répondre "maison", "appartement", ou "les deux".');
-          return;
-        }
-        
-        context.step = 2;
-        await this.sendMessage(user.whatsappNumber, `Parfait ! Quelle est votre *fourchette de prix* en FCFA ? 💰\n\nExemples :\n• "Entre 100000 et 300000 FCFA"\n• "Maximum 500000 FCFA"\n• "150000 FCFA minimum"`);
-        break;
+    // Waiting for the user to choose between resuming and restarting
+    if (context.awaitingResume) {
+      if (['oui', 'yes', 'ok', 'reprendre'].includes(text)) {
+        context.awaitingResume = false;
+      } else if (['non', 'no', 'recommencer'].includes(text)) {
+        context = { step: STEPS[0], data: {} };
+      } else {
+        await this.sendMessage(user.whatsappNumber, 'Répondez *OUI* pour reprendre où nous en étions ou *NON* pour recommencer.');
+        return;
+      }
 
-      case 2: // Price range
-        const priceMatch = message.match(/(\d+)[^\d]*(\d+)?/g);
-        if (priceMatch) {
-          const prices = priceMatch.map(p => parseInt(p.replace(/\D/g, ''))).filter(p => p > 0);
-          if (prices.length >= 1) {
-            if (prices.length === 1) {
-              if (text.includes('max') || text.includes('maximum')) {
-                context.data.maxPrice = prices[0];
-                context.data.minPrice = 0;
-              } else {
-                context.data.maxPrice = prices[0];
-                context.data.minPrice = Math.floor(prices[0] * 0.6);
-              }
-            } else {
-              context.data.minPrice = Math.min(...prices);
-              context.data.maxPrice = Math.max(...prices);
-            }
-          }
+      await this.saveContext(user.id, context);
+      await this.sendStepPrompt(user.whatsappNumber, context.step, context.data);
+      return;
+    }
+
+    // User comes back after a pause in the middle of the flow
+    if (hasProgress && idleMs > this.resumeAfterMs) {
+      context.awaitingResume = true;
+      await this.saveContext(user.id, context);
+      await this.sendMessage(user.whatsappNumber, `👋 Re-bonjour ! Vous étiez en train de configurer vos critères (étape ${STEPS.indexOf(context.step) + 1}/${STEPS.length}).\n\nOn reprend où on s'était arrêté ? Répondez *OUI* pour continuer ou *NON* pour recommencer.`);
+      return;
+    }
+
+    // Understand as much as possible from the message, then read it as an answer to the pending question
+    const pendingStep = context.step;
+    const parsed = this.readAmountForStep(pendingStep, await aiClassifierService.extractSearchCriteria(message));
+    context.data = { ...context.data, ...parsed };
+    const understood = this.applyStepAnswer(context, message) || Object.keys(parsed).length > 0;
+    if (context.data.locations) {
+      context.data.locations = gazetteerService.normalizeZones(context.data.locations);
+    }
+    if (context.data.zoneRadii) {
+      context.data.zoneRadii = gazetteerService.normalizeZoneRadii(context.data.zoneRadii);
+    }
+
+    const nextStep = this.getNextStep(context);
+    if (nextStep === null) {
+      // Save criteria
+      await this.saveCriteria(user.id, context.data);
+
+      // Send summary
+      await this.sendSummary(user.whatsappNumber, context.data);
+
+      // Update state and clear the onboarding context
+      await this.saveContext(user.id, null, 'CONFIRMING');
+      return;
+    }
+
+    context.step = nextStep;
+    await this.saveContext(user.id, context);
+
+    if (!understood) {
+      await this.sendRetryPrompt(user.whatsappNumber, pendingStep);
+      return;
+    }
+
+    // Several criteria at once: confirm what was understood before asking for the rest
+    if (Object.keys(parsed).length > 1) {
+      await this.sendMessage(user.whatsappNumber, `✅ C'est noté : ${this.describeCriteria(parsed)}`);
+    }
+
+    await this.sendStepPrompt(user.whatsappNumber, nextStep, context.data);
+  }
+
+  /**
+   * Read a message as a direct answer to the pending question.
+   * Returns false when the answer could not be understood.
+   */
+  private applyStepAnswer(context: MessageContext, message: string): boolean {
+    const data = context.data;
+    // Whole words only: "passage" or "peut" are not a skip
+    const words = normalizeText(message).split(/[^a-z0-9]+/);
+    const skip = words.some(word => SKIP_WORDS.includes(word));
+    const any = words.some(word => ANY_WORDS.includes(word));
+
+    switch (context.step) {
+      case 'transaction':
+        if (!data.transactionType && any) {
+          context.skippedSteps = [...(context.skippedSteps || []), context.step];
+          return true;
         }
+        return Boolean(data.transactionType);
 
-        if (!context.data.minPrice && !context.data.maxPrice) {
-          await this.sendMessage(user.whatsappNumber, 'Je n ai pas compris la fourchette de prix. Pouvez-vous reformuler ?\nExemple : "Entre 100000 et 300000 FCFA"');
-          return;
+      case 'type':
+        if (!data.propertyTypes && any) {
+          data.propertyTypes = [];
         }
+        return data.propertyTypes !== undefined;
 
-        context.step = 3;
-        await this.sendMessage(user.whatsappNumber, `Super ! Dans quelle(s) *zone(s)* souhaitez-vous chercher ? 📍\n\nExemples :\n• "Lyon 3ème, Villeurbanne"\n• "Paris intra-muros"\n• "Bordeaux centre et alentours"`);
-        break;
+      case 'price':
+        return Boolean(data.minPrice || data.maxPrice);
 
-      case 3: // Location
-        const locations = message.split(/[,;/\-]/).map(l => l.trim()).filter(l => l.length > 2);
-        if (locations.length === 0) {
-          await this.sendMessage(user.whatsappNumber, 'Veuillez indiquer au moins une zone de recherche. Exemple : "Lyon 3ème"');
-          return;
+      case 'moveIn':
+        if (data.maxMoveInCost === undefined) {
+          context.skippedSteps = [...(context.skippedSteps || []), context.step];
         }
-        context.data.locations = locations;
-
-        context.step = 4;
-        await this.sendMessage(user.whatsappNumber, `D accord ! Combien de *pièces minimum* ? 🚪\n\nExemples :\n• "2 pièces minimum"\n• "T3 ou plus"\n• "Pas d importance" (pour ignorer)`);
-        break;
+        return true;
 
-      case 4: // Rooms
-        if (!text.includes('pas') && !text.includes('ignore') && !text.includes('peu')) {
-          const roomsMatch = message.match(/(\d+)/);
-          if (roomsMatch) {
-            context.data.minRooms = parseInt(roomsMatch[1]);
+      case 'zones': {
+        if (!data.locations?.length) {
+          const locations = message.split(/[,;/]/).map(l => l.trim()).filter(l => l.length > 2);
+          if (locations.length > 0) {
+            data.locations = locations;
           }
         }
+        return Boolean(data.locations?.length);
+      }
 
-        context.step = 5;
-        await this.sendMessage(user.whatsappNumber, `Surface minimum souhaitée ? 📐\n\nExemples :\n• "30m2 minimum"\n• "50m² ou plus"\n• "Pas important" (pour ignorer)`);
-        break;
-
-      case 5: // Surface
-        if (!text.includes('pas') && !text.includes('ignore') && !text.includes('peu')) {
-          const surfaceMatch = message.match(/(\d+)/);
-          if (surfaceMatch) {
-            context.data.minSurface = parseInt(surfaceMatch[1]);
+      case 'rooms':
+      case 'surface': {
+        const field = context.step === 'rooms' ? 'minRooms' : 'minSurface';
+        if (data[field] === undefined && !skip) {
+          const numberMatch = message.match(/(\d+)/);
+          if (numberMatch) {
+            data[field] = parseInt(numberMatch[1]);
           }
         }
+        if (data[field] === undefined) {
+          context.skippedSteps = [...(context.skippedSteps || []), context.step];
+        }
+        return true;
+      }
 
-        // Save criteria
-        await this.saveCriteria(user.id, context.data);
+      case 'amenities':
+        if (!data.requiredAmenities?.length && !data.preferredAmenities?.length) {
+          context.skippedSteps = [...(context.skippedSteps || []), context.step];
+        }
+        return true;
+    }
 
-        // Send summary
-        await this.sendSummary(user.whatsappNumber, context.data);
+    return false;
+  }
 
-        // Update state
-        await prisma.user.update({
-          where: { id: user.id },
-          data: { conversationState: 'CONFIRMING' },
-        });
+  /**
+   * A bare amount answering the move-in question is the upfront budget, not the rent
+   */
+  private readAmountForStep(step: CriteriaStep, parsed: ParsedCriteria): ParsedCriteria {
+    if (step !== 'moveIn' || parsed.maxMoveInCost !== undefined || !parsed.maxPrice) {
+      return parsed;
+    }
+    const { minPrice, maxPrice, ...rest } = parsed;
+    return { ...rest, maxMoveInCost: maxPrice };
+  }
 
-        this.contexts.delete(user.whatsappNumber);
-        break;
+  /**
+   * First question still unanswered, or null when criteria are complete
+   */
+  private getNextStep(context: MessageContext): CriteriaStep | null {
+    const { data, skippedSteps = [] } = context;
+    const isMissing: Record<CriteriaStep, boolean> = {
+      transaction: !data.transactionType,
+      type: data.propertyTypes === undefined,
+      price: !data.minPrice && !data.maxPrice,
+      // Sales have no caution, avance or frais d'agence to budget
+      moveIn: data.maxMoveInCost === undefined && data.transactionType !== 'SALE',
+      zones: !data.locations?.length,
+      rooms: data.minRooms === undefined,
+      surface: data.minSurface === undefined,
+      amenities: data.requiredAmenities === undefined && data.preferredAmenities === undefined,
+    };
+
+    return STEPS.find(step => isMissing[step] && !skippedSteps.includes(step)) || null;
+  }
+
+  /**
+   * Explain what was not understood for a given step
+   */
+  private async sendRetryPrompt(to: string, step: CriteriaStep, editing = false): Promise<void> {
+    const retries: Partial<Record<CriteriaStep, string>> = {
+      transaction: 'Je n ai pas compris. Veuillez répondre "location", "achat", ou "bail commercial".',
+      type: 'Je n ai pas compris. Veuillez répondre par exemple "studio", "appartement", "maison", "villa", "terrain", ou "peu importe".',
+      price: 'Je n ai pas compris la fourchette de prix. Pouvez-vous reformuler ?\nExemple : "Entre 100000 et 300000 FCFA"',
+      zones: 'Veuillez indiquer au moins une zone de recherche. Exemple : "Akanda, Owendo"',
+    };
+
+    const retry = retries[step] || 'Je n ai pas compris, pouvez-vous reformuler ?';
+    await this.sendMessage(to, editing ? `${retry}\n\n${EDIT_CANCEL_HINT}` : retry);
+  }
+
+  /**
+   * Short human-readable list of criteria
+   */
+  private describeCriteria(data: ParsedCriteria): string {
+    const parts: string[] = [];
+
+    if (data.transactionType) parts.push(TRANSACTION_LABELS[data.transactionType].toLowerCase());
+    if (data.propertyTypes?.length) parts.push(describePropertyTypes(data.propertyTypes).toLowerCase());
+    if (data.minRooms) parts.push(`${data.minRooms} pièces+`);
+    if (data.minSurface) parts.push(`${data.minSurface}m²+`);
+    if (data.furnished !== undefined) parts.push(data.furnished ? 'meublé' : 'non meublé');
+    if (data.requiredAmenities?.length) parts.push(`avec ${describeAmenities(data.requiredAmenities).toLowerCase()}`);
+    if (data.preferredAmenities?.length) parts.push(`${describeAmenities(data.preferredAmenities).toLowerCase()} si possible`);
+    if (data.locations?.length) parts.push(this.describeZones(data.locations, data.zoneRadii));
+    if (data.maxPrice) {
+      parts.push(data.minPrice ? `${data.minPrice.toLocaleString()} - ${data.maxPrice.toLocaleString()} FCFA` : `max ${data.maxPrice.toLocaleString()} FCFA`);
+    } else if (data.minPrice) {
+      parts.push(`min ${data.minPrice.toLocaleString()} FCFA`);
     }
+    if (data.maxMoveInCost) parts.push(`entrée max ${data.maxMoveInCost.toLocaleString()} FCFA`);
+    if (data.excludeAgencies) parts.push('sans agence');
 
-    this.contexts.set(user.whatsappNumber, context);
+    return parts.join(' • ');
+  }
+
+  /**
+   * "Charbonnages (3 km), Akébé"
+   */
+  private describeZones(locations: string[], radii?: Record<string, number> | null): string {
+    return locations.map(zone => radii?.[zone] ? `${zone} (${radii[zone]} km)` : zone).join(', ');
+  }
+
+  /**
+   * "Forage, Parking • Climatisation (si possible)"
+   */
+  private describeAmenityCriteria(required?: Amenity[], preferred?: Amenity[]): string {
+    const parts: string[] = [];
+    if (required?.length) parts.push(describeAmenities(required));
+    if (preferred?.length) parts.push(`${describeAmenities(preferred)} (si possible)`);
+    return parts.join(' • ') || 'Indifférents';
+  }
+
+  /**
+   * Ask the question for a given criteria collection step
+   */
+  private async sendStepPrompt(to: string, step: CriteriaStep, data: ParsedCriteria = {}, editing = false): Promise<void> {
+    const prompts: Record<CriteriaStep, string> = {
+      transaction: 'Vous cherchez à *louer* 🔑, à *acheter* 🏷️ ou un *bail commercial* 🏪 ?',
+      type: `Quel type de bien cherchez-vous ? 🏠\n\n• Studio, chambre, appartement\n• Maison, villa, duplex\n• Terrain, local commercial, bureau\n\nVous pouvez en citer plusieurs ("studio ou appartement") ou répondre "peu importe".`,
+      price: data.transactionType === 'SALE'
+        ? `Parfait ! Quel est votre *budget d achat* en FCFA ? 💰\n\nExemples :\n• "Entre 20 et 40 millions"\n• "Maximum 50 millions"\n• "30000000 FCFA minimum"`
+        : `Parfait ! Quel est votre *loyer mensuel* en FCFA ? 💰\n\nExemples :\n• "Entre 100000 et 300000 FCFA"\n• "Maximum 500000 FCFA"\n• "150000 FCFA minimum"`,
+      moveIn: `Et combien pouvez-vous payer au maximum *à l entrée* (caution + avance + frais d agence) ? 💳\n\nExemples :\n• "600000 FCFA maximum"\n• "1 million"\n• "Pas de limite" (pour ignorer)`,
+      zones: `Super ! Dans quelle(s) *zone(s)* souhaitez-vous chercher ? 📍\n\nExemples :\n• "Akanda, Owendo"\n• "Près de Charbonnages"\n• "À 3 km du Lycée Léon Mba"`,
+      rooms: `D accord ! Combien de *pièces minimum* ? 🚪\n\nExemples :\n• "2 pièces minimum"\n• "T3 ou plus"\n• "Pas d importance" (pour ignorer)`,
+      surface: `Surface minimum souhaitée ? 📐\n\nExemples :\n• "30m2 minimum"\n• "50m² ou plus"\n• "Pas important" (pour ignorer)`,
+      amenities: `Dernière question : des *équipements* indispensables ? 🔧\n\nForage, groupe électrogène, climatisation, gardien, parking, clôture, carrelage, compteur SEEG séparé...\n\nExemples :\n• "Forage et parking"\n• "Clôture, clim si possible"\n• "Pas important" (pour ignorer)\n\n⚠️ Les annonces qui ne mentionnent pas un équipement indispensable ne vous seront pas envoyées.`,
+    };
+
+    await this.sendMessage(to, editing ? `${prompts[step]}\n\n${EDIT_CANCEL_HINT}` : prompts[step]);
+  }
+
+  /**
+   * Load the persisted onboarding context of a user
+   */
+  private loadContext(user: User): MessageContext {
+    const stored = user.conversationContext as unknown as MessageContext | null;
+    if (!stored || !STEPS.includes(stored.step)) {
+      return { step: STEPS[0], data: {} };
+    }
+    return {
+      step: stored.step,
+      data: stored.data || {},
+      skippedSteps: stored.skippedSteps,
+      awaitingResume: stored.awaitingResume,
+      editingStep: stored.editingStep,
+    };
+  }
+
+  /**
+   * Persist the onboarding context (and optionally the conversation state)
+   */
+  private async saveContext(userId: string, context: MessageContext | null, state?: ConversationState): Promise<void> {
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        ...(state && { conversationState: state }),
+        conversationContext: context ? (context as unknown as Prisma.InputJsonObject) : Prisma.DbNull,
+        contextUpdatedAt: context ? new Date() : null,
+      },
+    });
+  }
+
+  /**
+   * Reset onboarding sessions abandoned for longer than the expiry delay
+   */
+  async expireStaleSessions(): Promise<number> {
+    const result = await prisma.user.updateMany({
+      where: {
+        conversationState: 'COLLECTING_CRITERIA',
+        contextUpdatedAt: { lt: new Date(Date.now() - this.sessionExpiryMs) },
+      },
+      data: {
+        conversationState: 'IDLE',
+        conversationContext: Prisma.DbNull,
+        contextUpdatedAt: null,
+      },
+    });
+
+    return result.count;
   }
 
   /**
@@ -256,6 +515,10 @@ Pour commencer, dites-moi : cherchez-vous une *maison* 🏡 ou un *appartement*
   private async handleConfirmation(user: User, message: string): Promise<void> {
     const text = message.toLowerCase().trim();
 
+    if (await this.handleCriteriaEdit(user, message)) {
+      return;
+    }
+
     if (text === 'oui' || text === 'yes' || text === 'ok' || text === 'parfait') {
       await prisma.user.update({
         where: { id: user.id },
@@ -265,16 +528,11 @@ Pour commencer, dites-moi : cherchez-vous une *maison* 🏡 ou un *appartement*
         },
       });
 
-      const confirmationMessage = `✅ *Parfait ! Vos critères sont enregistrés.*\n\n🤖 Je surveille maintenant les groupes Facebook en temps réel.\n\n📱 Vous recevrez immédiatement les annonces correspondantes par WhatsApp !\n\n*Commandes disponibles :*\n• *MODIFIER* - Changer vos critères\n• *PAUSE* - Arrêter temporairement\n• *REPRENDRE* - Réactiver les alertes\n• *STATUT* - Voir vos critères actuels\n• *AIDE* - Obtenir de l aide`;
+      const confirmationMessage = `✅ *Parfait ! Vos critères sont enregistrés.*\n\n🤖 Je surveille maintenant les groupes Facebook en temps réel.\n\n📱 Vous recevrez immédiatement les annonces correspondantes par WhatsApp !\n\n*Commandes disponibles :*\n• *MODIFIER* - Changer vos critères\n• *PRIX*, *ZONE*... - Modifier un seul critère\n• *PAUSE* - Arrêter temporairement\n• *REPRENDRE* - Réactiver les alertes\n• *STATUT* - Voir vos critères actuels\n• *AIDE* - Obtenir de l aide`;
 
       await this.sendMessage(user.whatsappNumber, confirmationMessage);
     } else if (text === 'non' || text === 'no' || text === 'modifier' || text === 'change') {
-      await prisma.user.update({
-        where: { id: user.id },
-        data: { conversationState: 'COLLECTING_CRITERIA' },
-      });
-      this.contexts.set(user.whatsappNumber, { step: 1, data: {} });
-      await this.sendMessage(user.whatsappNumber, 'D accord, reprenons. Quel critère voulez-vous modifier ?\n\nRépondez par : TYPE, PRIX, ZONE, PIÈCES, ou SURFACE');
+      await this.sendEditMenu(user.whatsappNumber);
     } else {
       await this.sendMessage(user.whatsappNumber, 'Veuillez répondre par *OUI* pour confirmer ou *MODIFIER* pour changer vos critères.');
     }
@@ -286,13 +544,12 @@ Pour commencer, dites-moi : cherchez-vous une *maison* 🏡 ou un *appartement*
   private async handleActiveState(user: User, message: string): Promise<void> {
     const text = message.toLowerCase().trim();
 
+    if (await this.handleCriteriaEdit(user, message)) {
+      return;
+    }
+
     if (text === 'modifier') {
-      await prisma.user.update({
-        where: { id: user.id },
-        data: { conversationState: 'COLLECTING_CRITERIA' },
-      });
-      this.contexts.set(user.whatsappNumber, { step: 1, data: {} });
-      await this.sendMessage(user.whatsappNumber, 'Modifions vos critères. Cherchez-vous une maison ou un appartement ?');
+      await this.sendEditMenu(user.whatsappNumber);
     } else if (text === 'pause' || text === 'stop') {
       await prisma.user.update({
         where: { id: user.id },
@@ -309,6 +566,233 @@ Pour commencer, dites-moi : cherchez-vous une *maison* 🏡 ou un *appartement*
     }
   }
 
+  /**
+   * Targeted editing of a single criterion (TYPE, PRIX, ENTRÉE, ZONE, PIÈCES, SURFACE, ÉQUIPEMENTS)
+   * and zone additions/removals. Returns false when the message is not an edit command.
+   */
+  private async handleCriteriaEdit(user: User, message: string): Promise<boolean> {
+    const text = normalizeText(message);
+    const context = this.loadContext(user);
+
+    // A command sent while an edit is pending drops the edit and is handled by the caller
+    if (context.editingStep && EDIT_ESCAPE_COMMANDS.includes(text)) {
+      await this.saveContext(user.id, null);
+      return false;
+    }
+
+    // Restart the whole collection flow
+    if (text === 'tout') {
+      await this.saveContext(user.id, { step: STEPS[0], data: {} }, 'COLLECTING_CRITERIA');
+      await this.sendMessage(user.whatsappNumber, 'D accord, reprenons tous vos critères.');
+      await this.sendStepPrompt(user.whatsappNumber, STEPS[0]);
+      return true;
+    }
+
+    // "ajouter Owendo", "retirer Nzeng-Ayong"
+    const zoneCommand = message.trim().match(/^(ajouter|ajoute|retirer|retire|enlever|supprimer)\s+(.+)$/i);
+    if (zoneCommand) {
+      await this.editZones(user, zoneCommand[2], normalizeText(zoneCommand[1]).startsWith('ajout'));
+      return true;
+    }
+
+    // "SANS AGENCE" / "AVEC AGENCE"
+    const agencyCommand = text.match(/^(sans|avec) (frais d['’ ]\s*)?agences?$/);
+    if (agencyCommand) {
+      await this.updateCriteria(user, { excludeAgencies: agencyCommand[1] === 'sans' });
+      await this.saveContext(user.id, null);
+      await this.sendCriteriaUpdated(user);
+      return true;
+    }
+
+    // "PRIX" alone asks for the new value, "PRIX max 300000" applies it directly
+    const fieldCommand = text.match(/^([a-z]+)\b\s*:?\s*(.*)$/);
+    if (fieldCommand && EDIT_COMMANDS[fieldCommand[1]]) {
+      const step = EDIT_COMMANDS[fieldCommand[1]];
+      const value = message.trim().replace(/^\S+\s*:?\s*/, '');
+
+      if (value) {
+        await this.applyCriteriaEdit(user, step, value);
+      } else {
+        const criteria = await prisma.propertyCriteria.findUnique({ where: { userId: user.id } });
+        await this.saveContext(user.id, { step: context.step, data: {}, editingStep: step });
+        await this.sendStepPrompt(user.whatsappNumber, step, criteria ? this.criteriaToData(criteria) : {}, true);
+      }
+      return true;
+    }
+
+    if (context.editingStep) {
+      if (text === 'annuler') {
+        await this.saveContext(user.id, null);
+        await this.sendMessage(user.whatsappNumber, 'Modification annulée.');
+      } else {
+        await this.applyCriteriaEdit(user, context.editingStep, message);
+      }
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Update the criterion of a given step from the user's answer
+   */
+  private async applyCriteriaEdit(user: User, step: CriteriaStep, answer: string): Promise<void> {
+    const fields = STEP_FIELDS[step];
+    const parsed = this.readAmountForStep(step, await aiClassifierService.extractSearchCriteria(answer));
+    const edit: MessageContext = {
+      step,
+      data: Object.fromEntries(fields.map(field => [field, parsed[field as keyof ParsedCriteria]])
+        .filter(([, value]) => value !== undefined)),
+    };
+
+    if (!this.applyStepAnswer(edit, answer)) {
+      await this.saveContext(user.id, { step, data: {}, editingStep: step });
+      await this.sendRetryPrompt(user.whatsappNumber, step, true);
+      return;
+    }
+
+    // Fields left empty (e.g. "pas d importance") clear the criterion
+    const values = Object.fromEntries(
+      fields.map(field => [field, edit.data[field as keyof ParsedCriteria] ?? null])
+    ) as CriteriaValues;
+
+    // New zones replace the previous radii
+    if (step === 'zones') {
+      values.zoneRadii = parsed.zoneRadii || {};
+    }
+
+    // Amenity lists are never null, "pas important" empties them
+    if (step === 'amenities') {
+      values.requiredAmenities = edit.data.requiredAmenities || [];
+      values.preferredAmenities = edit.data.preferredAmenities || [];
+    }
+
+    await this.updateCriteria(user, values);
+    await this.saveContext(user.id, null);
+    await this.sendCriteriaUpdated(user);
+  }
+
+  /**
+   * Add or remove zones without touching the other criteria
+   */
+  private async editZones(user: User, rawZones: string, add: boolean): Promise<void> {
+    const zones = rawZones.split(/,|;|\s+et\s+/).map(z => z.trim()).filter(z => z.length > 1);
+    const criteria = await prisma.propertyCriteria.findUnique({ where: { userId: user.id } });
+    const current = criteria?.locations || [];
+    const isListed = (list: string[], zone: string) => list.some(l => normalizeText(l) === normalizeText(zone));
+
+    let updated: string[];
+    if (add) {
+      updated = [...current];
+      for (const zone of zones) {
+        if (!isListed(updated, zone)) updated.push(zone);
+      }
+    } else {
+      updated = current.filter(location => !isListed(zones, location));
+      if (updated.length === current.length) {
+        await this.sendMessage(user.whatsappNumber, `${zones.join(', ')} ne fait pas partie de vos zones (${current.join(', ') || 'aucune'}).`);
+        return;
+      }
+      if (updated.length === 0) {
+        await this.sendMessage(user.whatsappNumber, 'Vous devez garder au moins une zone de recherche. Tapez *ZONE* pour les remplacer.');
+        return;
+      }
+    }
+
+    const radii = (criteria?.zoneRadii || {}) as Record<string, number>;
+    await this.updateCriteria(user, {
+      locations: updated,
+      zoneRadii: Object.fromEntries(Object.entries(radii).filter(([zone]) => isListed(updated, zone))),
+    });
+    await this.sendCriteriaUpdated(user);
+  }
+
+  /**
+   * Save changed criteria and record the change in the activity log
+   */
+  private async updateCriteria(user: User, values: CriteriaValues): Promise<void> {
+    if (values.locations) {
+      values.locations = gazetteerService.normalizeZones(values.locations);
+    }
+    if (values.zoneRadii) {
+      values.zoneRadii = gazetteerService.normalizeZoneRadii(values.zoneRadii);
+    }
+
+    const before = await prisma.propertyCriteria.findUnique({ where: { userId: user.id } });
+    const after = await prisma.propertyCriteria.upsert({
+      where: { userId: user.id },
+      create: { userId: user.id, locations: [], ...values },
+      update: values,
+    });
+
+    const fields = Object.keys(values) as Array<keyof CriteriaValues>;
+    await prisma.activityLog.create({
+      data: {
+        action: 'CRITERIA_UPDATED',
+        entityType: 'PropertyCriteria',
+        entityId: after.id,
+        userId: user.id,
+        metadata: {
+          fields,
+          before: before ? Object.fromEntries(fields.map(f => [f, before[f]])) : null,
+          after: Object.fromEntries(fields.map(f => [f, after[f]])),
+        } as Prisma.InputJsonObject,
+      },
+    });
+  }
+
+  /**
+   * Re-send the criteria after an edit, with the confirmation prompt if still needed
+   */
+  private async sendCriteriaUpdated(user: User): Promise<void> {
+    const fresh = await prisma.user.findUnique({
+      where: { id: user.id },
+      include: { criteria: true },
+    });
+    if (!fresh) return;
+
+    await this.sendMessage(user.whatsappNumber, '✅ Critère mis à jour !');
+
+    if (fresh.conversationState === 'CONFIRMING' && fresh.criteria) {
+      await this.sendSummary(user.whatsappNumber, this.criteriaToData(fresh.criteria));
+    } else {
+      await this.sendCurrentStatus(fresh);
+    }
+  }
+
+  /**
+   * Ask which criterion to change
+   */
+  private async sendEditMenu(to: string): Promise<void> {
+    await this.sendMessage(to, `✏️ Quel critère voulez-vous modifier ?
+
+Répondez par : *TRANSACTION*, *TYPE*, *PRIX*, *ENTRÉE*, *ZONE*, *PIÈCES*, *SURFACE* ou *ÉQUIPEMENTS*
+Pour les zones : *AJOUTER Owendo* ou *RETIRER Nzeng-Ayong*
+Pour les agences : *SANS AGENCE* ou *AVEC AGENCE*
+Ou *TOUT* pour tout reprendre depuis le début.`);
+  }
+
+  /**
+   * Convert stored criteria back into collected data
+   */
+  private criteriaToData(criteria: PropertyCriteria): ParsedCriteria {
+    return {
+      transactionType: criteria.transactionType ?? undefined,
+      propertyTypes: criteria.propertyTypes,
+      minPrice: criteria.minPrice ?? undefined,
+      maxPrice: criteria.maxPrice ?? undefined,
+      maxMoveInCost: criteria.maxMoveInCost ?? undefined,
+      locations: criteria.locations,
+      zoneRadii: (criteria.zoneRadii as Record<string, number> | null) ?? undefined,
+      minRooms: criteria.minRooms ?? undefined,
+      minSurface: criteria.minSurface ?? undefined,
+      furnished: criteria.furnished ?? undefined,
+      requiredAmenities: criteria.requiredAmenities,
+      preferredAmenities: criteria.preferredAmenities,
+      excludeAgencies: criteria.excludeAgencies || undefined,
+    };
+  }
+
   /**
    * Handle paused state
    */
@@ -348,11 +832,15 @@ Pour commencer, dites-moi : cherchez-vous une *maison* 🏡 ou un *appartement*
     const c = userWithCriteria.criteria;
     const statusMessage = `📋 *Vos critères actuels :*
 
-🏠 Type : ${c.propertyType === 'HOUSE' ? 'Maison' : c.propertyType === 'APARTMENT' ? 'Appartement' : 'Les deux'}
+🔑 Transaction : ${c.transactionType ? TRANSACTION_LABELS[c.transactionType] : 'Indifférente'}
+🏠 Type : ${describePropertyTypes(c.propertyTypes)}
 💰 Budget : ${c.minPrice?.toLocaleString() || 'Non défini'} - ${c.maxPrice?.toLocaleString() || 'Non défini'} FCFA
-📍 Zones : ${c.locations.join(', ') || 'Non définies'}
+💳 Entrée : ${c.maxMoveInCost ? `max ${c.maxMoveInCost.toLocaleString()} FCFA` : 'Non définie'}
+📍 Zones : ${this.describeZones(c.locations, c.zoneRadii as Record<string, number> | null) || 'Non définies'}
 🚪 Pièces : ${c.minRooms ? c.minRooms + '+' : 'Non défini'}
 📐 Surface : ${c.minSurface ? c.minSurface + 'm²+' : 'Non définie'}
+🔧 Équipements : ${this.describeAmenityCriteria(c.requiredAmenities, c.preferredAmenities)}
+🏢 Agences : ${c.excludeAgencies ? 'Exclues (sans frais d agence)' : 'Acceptées'}
 
 📊 Statut : ${user.conversationState === 'ACTIVE' ? '🟢 Actif' : user.conversationState === 'PAUSED' ? '⏸️ En pause' : '🔴 Inactif'}`;
 
@@ -367,6 +855,9 @@ Pour commencer, dites-moi : cherchez-vous une *maison* 🏡 ou un *appartement*
 
 *Commandes principales :*
 • *MODIFIER* - Changer vos critères de recherche
+• *PRIX*, *ENTRÉE*, *ZONE*, *TYPE*, *PIÈCES*, *SURFACE*, *ÉQUIPEMENTS* - Modifier un seul critère
+• *AJOUTER* / *RETIRER* <zone> - Gérer vos zones
+• *SANS AGENCE* / *AVEC AGENCE* - Exclure ou non les annonces d agences
 • *PAUSE* - Arrêter temporairement les alertes
 • *REPRENDRE* - Réactiver les alertes
 • *STATUT* - Voir vos critères actuels
@@ -401,11 +892,16 @@ Que souhaitez-vous faire ?
   private async sendSummary(to: string, data: MessageContext['data']): Promise<void> {
     const summary = `📋 *Récapitulatif de vos critères :*
 
-🏠 Type : ${data.propertyType === 'HOUSE' ? 'Maison' : data.propertyType === 'APARTMENT' ? 'Appartement' : 'Les deux'}
+🔑 Transaction : ${data.transactionType ? TRANSACTION_LABELS[data.transactionType] : 'Indifférente'}
+🏠 Type : ${describePropertyTypes(data.propertyTypes)}
 💰 Budget : ${data.minPrice?.toLocaleString()} - ${data.maxPrice?.toLocaleString()} FCFA
-📍 Zones : ${data.locations?.join(', ')}
+💳 Entrée : ${data.maxMoveInCost ? `max ${data.maxMoveInCost.toLocaleString()} FCFA` : 'Non spécifiée'}
+📍 Zones : ${this.describeZones(data.locations || [], data.zoneRadii)}
 🚪 Pièces : ${data.minRooms ? data.minRooms + '+' : 'Non spécifié'}
 📐 Surface : ${data.minSurface ? data.minSurface + 'm²+' : 'Non spécifiée'}
+🛋️ Meublé : ${data.furnished === undefined ? 'Indifférent' : data.furnished ? 'Oui' : 'Non'}
+🔧 Équipements : ${this.describeAmenityCriteria(data.requiredAmenities, data.preferredAmenities)}
+🏢 Agences : ${data.excludeAgencies ? 'Exclues (sans frais d agence)' : 'Acceptées'}
 
 Tout est correct ? Répondez *OUI* pour activer la surveillance ou *MODIFIER* pour changer.`;
 
@@ -420,20 +916,34 @@ Tout est correct ? Répondez *OUI* pour activer la surveillance ou *MODIFIER* po
       where: { userId },
       create: {
         userId,
-        propertyType: (data.propertyType as any) || 'BOTH',
+        transactionType: data.transactionType,
+        propertyTypes: data.propertyTypes || [],
         minPrice: data.minPrice,
         maxPrice: data.maxPrice,
+        maxMoveInCost: data.maxMoveInCost,
         locations: data.locations || [],
+        zoneRadii: data.zoneRadii || {},
         minRooms: data.minRooms,
         minSurface: data.minSurface,
+        furnished: data.furnished,
+        requiredAmenities: data.requiredAmenities || [],
+        preferredAmenities: data.preferredAmenities || [],
+        excludeAgencies: data.excludeAgencies || false,
       },
       update: {
-        propertyType: (data.propertyType as any) || 'BOTH',
+        transactionType: data.transactionType ?? null,
+        propertyTypes: data.propertyTypes || [],
         minPrice: data.minPrice,
         maxPrice: data.maxPrice,
+        maxMoveInCost: data.maxMoveInCost,
         locations: data.locations || [],
+        zoneRadii: data.zoneRadii || {},
         minRooms: data.minRooms,
         minSurface: data.minSurface,
+        furnished: data.furnished,
+        requiredAmenities: data.requiredAmenities || [],
+        preferredAmenities: data.preferredAmenities || [],
+        excludeAgencies: data.excludeAgencies || false,
       },
     });
   }
@@ -0,0 +1,69 @@
+import { criteriaParserService, ParsedCriteria } from './criteria-parser.service';
+
+describe('CriteriaParserService.parse', () => {
+  it.each<[string, ParsedCriteria]>([
+    ['Entre 20 et 40 millions', { minPrice: 20000000, maxPrice: 40000000 }],
+    ['Entre 100000 et 300000 FCFA', { minPrice: 100000, maxPrice: 300000 }],
+    ['150000 FCFA minimum', { minPrice: 150000 }],
+    ['150000 au moins', { minPrice: 150000 }],
+    ['Maximum 500000 FCFA', { minPrice: 0, maxPrice: 500000 }],
+    ['300 mille max', { minPrice: 0, maxPrice: 300000 }],
+    ['200000', { minPrice: 120000, maxPrice: 200000 }],
+    ['T3 50m2', { minRooms: 3, minSurface: 50 }],
+  ])('parses "%s"', (message, expected) => {
+    expect(criteriaParserService.parse(message)).toEqual(expected);
+  });
+
+  it('reads a full rental request', () => {
+    expect(criteriaParserService.parse('Je cherche un appartement à louer à Akanda, 2 chambres salon, max 250000')).toEqual({
+      transactionType: 'RENT',
+      propertyTypes: ['APARTMENT'],
+      minPrice: 0,
+      maxPrice: 250000,
+      locations: ['Akanda'],
+      minRooms: 3,
+    });
+  });
+
+  it('keeps the upfront budget apart from the rent', () => {
+    expect(criteriaParserService.parse('à l entrée 600 mille, loyer 200000 max')).toEqual({
+      transactionType: 'RENT',
+      minPrice: 0,
+      maxPrice: 200000,
+      maxMoveInCost: 600000,
+    });
+  });
+
+  it('reads a sale with its zone', () => {
+    expect(criteriaParserService.parse('maison à acheter à Owendo')).toEqual({
+      transactionType: 'SALE',
+      propertyTypes: ['HOUSE'],
+      locations: ['Owendo'],
+    });
+  });
+
+  it('reads a radius around a landmark', () => {
+    expect(criteriaParserService.parse('villa à 3 km de Charbonnages')).toEqual({
+      propertyTypes: ['VILLA'],
+      locations: ['Charbonnages'],
+      zoneRadii: { Charbonnages: 3 },
+    });
+  });
+
+  it('splits required and preferred amenities', () => {
+    expect(criteriaParserService.parse('forage et parking, clim si possible')).toEqual({
+      requiredAmenities: ['BOREHOLE', 'PARKING'],
+      preferredAmenities: ['AIR_CONDITIONING'],
+    });
+  });
+
+  it.each([
+    'pas de frais d agence',
+    'sans frais d agence',
+    "sans frais d'agence",
+    'pas d agence',
+    'directement avec le propriétaire',
+  ])('excludes agencies for "%s"', (message) => {
+    expect(criteriaParserService.parse(message).excludeAgencies).toBe(true);
+  });
+});
@@ -0,0 +1,209 @@
+import { Amenity, PropertyType } from '@prisma/client';
+import { FcfaAmount, extractFcfaAmounts } from '../utils/price';
+import { detectPropertyTypes } from '../utils/property-types';
+import { detectAmenities } from '../utils/amenities';
+import { gazetteerService } from './gazetteer.service';
+
+export interface ParsedCriteria {
+  transactionType?: 'RENT' | 'SALE' | 'COMMERCIAL_LEASE';
+  propertyTypes?: PropertyType[]; // Empty = any type
+  minPrice?: number;
+  maxPrice?: number;
+  locations?: string[];
+  zoneRadii?: Record<string, number>; // Search radius in km per zone
+  minRooms?: number;
+  minSurface?: number;
+  furnished?: boolean;
+  maxMoveInCost?: number; // Upfront budget: caution + avance + frais d'agence
+  requiredAmenities?: Amenity[];
+  preferredAmenities?: Amenity[];
+  excludeAgencies?: boolean; // "Sans frais d'agence"
+}
+
+// Amenities asked with these words are a plus, not a requirement
+const PREFERRED_AMENITY_CONTEXT = /(si possible|de pr[ée]f[ée]rence|id[ée]alement|serait un plus|en bonus|pas obligatoire|souhait)/;
+
+// Words announcing the upfront budget rather than the rent ("à l'entrée 600 mille")
+const MOVE_IN_CONTEXT = /(entr[ée]e|emm[ée]nag|rentrer|installation|caution|avance|d[ée]part)[^,.;]*$/;
+
+// Words that follow "à" without being a place ("à louer", "à partir de"...)
+const NON_LOCATION_WORDS = ['louer', 'vendre', 'acheter', 'l', 'partir', 'peu', 'moins', 'plus', 'part', 'la', 'le', 'les', 'un', 'une', 'l\'entrée', 'l\'entree'];
+
+/**
+ * Deterministic parser turning a free-text WhatsApp message into search criteria.
+ * Used as the fallback when the LLM is unavailable.
+ */
+export class CriteriaParserService {
+  /**
+   * Extract every criterion that can be recognized in the message
+   */
+  parse(message: string): ParsedCriteria {
+    const text = message.toLowerCase();
+    const amounts = extractFcfaAmounts(text);
+    const moveIn = amounts.find(amount => MOVE_IN_CONTEXT.test(text.substring(Math.max(0, amount.index - 40), amount.index)));
+
+    const criteria: ParsedCriteria = {
+      transactionType: this.parseTransactionType(text),
+      propertyTypes: this.parsePropertyTypes(text),
+      ...this.parsePrice(text, amounts.filter(amount => amount !== moveIn)),
+      maxMoveInCost: moveIn?.value,
+      locations: this.parseLocations(message),
+      minRooms: this.parseRooms(text),
+      minSurface: this.parseSurface(text),
+      furnished: this.parseFurnished(text),
+      ...this.parseAmenities(text),
+      excludeAgencies: this.parseExcludeAgencies(text),
+    };
+
+    criteria.zoneRadii = this.parseZoneRadii(text, criteria.locations);
+
+    return this.compact(criteria);
+  }
+
+  /**
+   * Drop undefined and empty values so results can be spread over existing data
+   */
+  compact(criteria: ParsedCriteria): ParsedCriteria {
+    const result: ParsedCriteria = {};
+    const keep = <K extends keyof ParsedCriteria>(key: K) => {
+      result[key] = criteria[key];
+    };
+
+    for (const key of Object.keys(criteria) as Array<keyof ParsedCriteria>) {
+      const value = criteria[key];
+      if (value === undefined || value === null) continue;
+      if (Array.isArray(value) && value.length === 0) continue;
+      if (typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length === 0) continue;
+      keep(key);
+    }
+    return result;
+  }
+
+  private parseTransactionType(text: string): ParsedCriteria['transactionType'] {
+    if (/bail commercial/.test(text)) return 'COMMERCIAL_LEASE';
+    if (/\b(acheter|achat|acquérir|acquerir|vendre|vente)\b/.test(text)) return 'SALE';
+    if (/(local commercial|magasin|boutique|bureau)/.test(text)) return 'COMMERCIAL_LEASE';
+    if (/\b(louer|location|loyer|bail)\b/.test(text)) return 'RENT';
+    return undefined;
+  }
+
+  private parsePropertyTypes(text: string): PropertyType[] | undefined {
+    const types = detectPropertyTypes(text);
+    return types.length > 0 ? types : undefined;
+  }
+
+  private parsePrice(text: string, amounts: FcfaAmount[]): Pick<ParsedCriteria, 'minPrice' | 'maxPrice'> {
+    if (amounts.length === 0) return {};
+
+    if (amounts.length >= 2) {
+      const values = amounts.map(a => a.value);
+      return { minPrice: Math.min(...values), maxPrice: Math.max(...values) };
+    }
+
+    const amount = amounts[0];
+    const before = text.substring(Math.max(0, amount.index - 25), amount.index);
+    // "150000 FCFA minimum": the marker can also follow the amount
+    const after = text.substring(amount.index + amount.length).split(/[,;.!?\n]/)[0].trim().split(/\s+/).slice(0, 3).join(' ');
+
+    if (/(max|maximum|pas plus de|moins de|jusqu|au plus)/.test(before) || /\b(maximum|max|au plus)\b/.test(after)) {
+      return { minPrice: 0, maxPrice: amount.value };
+    }
+    if (/(min|minimum|au moins|plus de|à partir de|a partir de)/.test(before) || /\b(minimum|min|au moins)\b/.test(after)) {
+      return { minPrice: amount.value };
+    }
+    if (/(vers|environ|autour|dans les)/.test(before)) {
+      return { minPrice: Math.round(amount.value * 0.8), maxPrice: Math.round(amount.value * 1.2) };
+    }
+
+    // A bare budget is read as a maximum with some room below
+    return { minPrice: Math.floor(amount.value * 0.6), maxPrice: amount.value };
+  }
+
+  private parseLocations(message: string): string[] | undefined {
+    const pattern = /(?:^|\s)(?:à|a|au|aux|sur|quartier|zone|secteur|(?:près|pres|proche|loin|côté|cote|km)\s+(?:de|du|des))\s+([^,.;!?]+?)(?=\s+(?:à|a|au|aux|vers|pour|avec|budget|dans|rayon|entre|max|maximum|minimum|environ|autour|de|du|meubl\w*|non)(?![\wà-ÿ])|\s+\d|[,.;!?]|$)/gi;
+    const locations: string[] = [];
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(message)) !== null) {
+      for (const part of match[1].split(/\s+(?:et|ou)\s+|\//)) {
+        const location = part.trim();
+        const firstWord = location.split(/\s+/)[0]?.toLowerCase();
+        if (location.length > 2 && !/^\d/.test(location) && !NON_LOCATION_WORDS.includes(firstWord)) {
+          locations.push(location);
+        }
+      }
+    }
+
+    // Known quartiers named without a preposition ("appart Akébé 150k")
+    if (locations.length === 0) {
+      locations.push(...gazetteerService.resolve(message).map(place => place.name));
+    }
+
+    return locations.length > 0 ? Array.from(new Set(locations)) : undefined;
+  }
+
+  /**
+   * "à 3 km de Charbonnages", "Akébé dans un rayon de 5km": one radius applies to every zone of the message
+   */
+  private parseZoneRadii(text: string, locations?: string[]): Record<string, number> | undefined {
+    const radius = text.match(/(\d+(?:[.,]\d+)?)\s*(?:km|kilom[eè]tres?)\b/);
+    if (!radius || !locations?.length) return undefined;
+
+    const km = parseFloat(radius[1].replace(',', '.'));
+    return Object.fromEntries(locations.map(location => [location, km]));
+  }
+
+  private parseRooms(text: string): number | undefined {
+    const pieces = text.match(/(\d+)\s*(?:pièces|pieces|pièce|piece|p)\b/);
+    if (pieces) return parseInt(pieces[1]);
+
+    const typed = text.match(/\b[tf]\s?(\d)\b/);
+    if (typed) return parseInt(typed[1]);
+
+    // "2 chambres salon" = 3 pièces
+    const bedrooms = text.match(/(\d+)\s*chambres?/);
+    if (bedrooms) return parseInt(bedrooms[1]) + (text.includes('salon') ? 1 : 0);
+
+    if (/\bstudio\b/.test(text)) return 1;
+    if (/\bchambre salon\b/.test(text)) return 2;
+    return undefined;
+  }
+
+  private parseSurface(text: string): number | undefined {
+    const surface = text.match(/(\d+)\s*(?:m2|m²|mètres carrés|metres carres)/);
+    return surface ? parseInt(surface[1]) : undefined;
+  }
+
+  /**
+   * "forage et parking, clim si possible": each clause is required unless softened
+   */
+  private parseAmenities(text: string): Pick<ParsedCriteria, 'requiredAmenities' | 'preferredAmenities'> {
+    const required = new Set<Amenity>();
+    const preferred = new Set<Amenity>();
+
+    for (const clause of text.split(/[,;.\n]/)) {
+      const target = PREFERRED_AMENITY_CONTEXT.test(clause) ? preferred : required;
+      for (const amenity of detectAmenities(clause)) target.add(amenity);
+    }
+
+    return {
+      requiredAmenities: Array.from(required),
+      preferredAmenities: Array.from(preferred).filter(amenity => !required.has(amenity)),
+    };
+  }
+
+  private parseExcludeAgencies(text: string): boolean | undefined {
+    if (/(sans|pas de|pas d['’ ]|aucun)\s*(frais d['’ ]?\s*agence|agences?|commission|intermédiaire|intermediaire|démarcheur|demarcheur)|directement (avec le|du) propri[ée]taire/.test(text)) {
+      return true;
+    }
+    return undefined;
+  }
+
+  private parseFurnished(text: string): boolean | undefined {
+    if (/non[\s-]?meubl/.test(text)) return false;
+    if (/meubl/.test(text)) return true;
+    return undefined;
+  }
+}
+
+export const criteriaParserService = new CriteriaParserService();
@@ -0,0 +1,72 @@
+jest.mock('../config/database', () => ({ prisma: {} }));
+
+import { ScrapedListing } from '@prisma/client';
+import { duplicateDetectorService } from './duplicate-detector.service';
+
+// Default DUPLICATE_THRESHOLD
+const THRESHOLD = 0.75;
+
+const listing = (fields: Partial<ScrapedListing>): ScrapedListing => ({
+  originalText: '',
+  contact: null,
+  images: [],
+  price: null,
+  location: null,
+  propertyType: null,
+  ...fields,
+} as ScrapedListing);
+
+const VILLA = 'Villa à louer à Akanda, 4 chambres, 3 douches, grande cour, gardien, 800 000 FCFA par mois. Contact 077 12 34 56';
+const VILLA_REPOST = 'A louer villa Akanda 4 chambres 3 douches, grande cour avec gardien. Prix 800 000 FCFA/mois. Appelez le +241 77 12 34 56';
+
+describe('DuplicateDetectorService.compare', () => {
+  it.each([
+    {
+      name: 'the same photo under another CDN host and signature',
+      a: listing({ originalText: 'Studio à louer', images: ['https://scontent-cdg4-1.xx.fbcdn.net/v/t39.30808-6/4481_1015_n.jpg?_nc_cat=1&oh=aa'] }),
+      b: listing({ originalText: 'Bel appartement meublé', images: ['https://scontent-lhr8-2.xx.fbcdn.net/v/t39.30808-6/4481_1015_n.jpg?_nc_cat=7&oh=bb'] }),
+      expected: { sharedImages: true, score: 1 },
+    },
+    {
+      name: 'a reworded repost with the number written another way',
+      a: listing({ originalText: VILLA_REPOST }),
+      b: listing({ originalText: VILLA, contact: '077 12 34 56' }),
+      expected: { sharedContact: true, sharedImages: false },
+    },
+    {
+      name: 'the same price in the same place',
+      a: listing({ originalText: VILLA_REPOST, price: 800000, location: 'Akanda' }),
+      b: listing({ originalText: VILLA, price: 800000, location: 'Akanda' }),
+      expected: { samePriceAndLocation: true },
+    },
+  ])('matches $name', ({ a, b, expected }) => {
+    const signals = duplicateDetectorService.compare(a, b);
+    expect(signals).toMatchObject(expected);
+    expect(signals.score).toBeGreaterThanOrEqual(THRESHOLD);
+  });
+
+  it.each([
+    {
+      name: 'an agency template reused for another kind of property',
+      a: listing({ originalText: VILLA, propertyType: 'VILLA' }),
+      b: listing({ originalText: VILLA.replace('Villa', 'Appartement'), propertyType: 'APARTMENT' }),
+      expected: { sharedContact: true },
+    },
+    {
+      name: 'two unrelated listings of the same author',
+      a: listing({ originalText: 'Terrain de 600 m² à vendre à Ntoum, titre foncier, 15 millions. 077 12 34 56' }),
+      b: listing({ originalText: VILLA }),
+      expected: { sharedContact: true, samePriceAndLocation: false },
+    },
+    {
+      name: 'different numbers and photos',
+      a: listing({ originalText: 'Studio meublé à louer à Louis, 200 000 FCFA. 066 00 11 22', images: ['https://scontent.xx.fbcdn.net/v/1111_n.jpg?oh=a'] }),
+      b: listing({ originalText: VILLA, images: ['https://scontent.xx.fbcdn.net/v/2222_n.jpg?oh=a'] }),
+      expected: { sharedContact: false, sharedImages: false },
+    },
+  ])('keeps apart $name', ({ a, b, expected }) => {
+    const signals = duplicateDetectorService.compare(a, b);
+    expect(signals).toMatchObject(expected);
+    expect(signals.score).toBeLessThan(THRESHOLD);
+  });
+});
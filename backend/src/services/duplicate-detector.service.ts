@@ -0,0 +1,185 @@
+import { Prisma, ScrapedListing } from '@prisma/client';
+import { prisma } from '../config/database';
+import { gazetteerService } from './gazetteer.service';
+import { getImageKey, getImageKeys } from '../utils/image';
+import { getListingPhones } from '../utils/phone';
+import { normalizeText } from '../utils/text';
+
+export interface DuplicateSignals {
+  textSimilarity: number;        // Jaccard similarity of the significant words, 0-1
+  sharedContact: boolean;
+  sharedImages: boolean;
+  samePriceAndLocation: boolean;
+  score: number;                 // 0-1, a duplicate from the threshold up
+}
+
+/**
+ * Recognizes the same property posted in several groups or reposted days later,
+ * and clusters those listings under the first one seen (the canonical listing)
+ */
+export class DuplicateDetectorService {
+  private threshold: number;
+  private windowDays: number;
+
+  constructor() {
+    this.threshold = parseFloat(process.env.DUPLICATE_THRESHOLD || '0.75');
+    this.windowDays = parseInt(process.env.DUPLICATE_WINDOW_DAYS || '30');
+  }
+
+  /**
+   * Attach a listing to the cluster of an earlier listing describing the same property
+   */
+  async assignCluster(listing: ScrapedListing): Promise<ScrapedListing> {
+    if (listing.canonicalId) {
+      return listing;
+    }
+
+    const duplicate = await this.findDuplicateOf(listing);
+    if (!duplicate) {
+      return listing;
+    }
+
+    const canonicalId = duplicate.listing.canonicalId || duplicate.listing.id;
+    const updated = await prisma.scrapedListing.update({
+      where: { id: listing.id },
+      data: {
+        canonicalId,
+        duplicateScore: duplicate.signals.score,
+      },
+    });
+
+    console.log(`🔁 Listing ${listing.postId} is a duplicate of ${duplicate.listing.postId} (score: ${duplicate.signals.score.toFixed(2)})`);
+    return updated;
+  }
+
+  /**
+   * Most similar earlier listing above the threshold, if any
+   */
+  async findDuplicateOf(listing: ScrapedListing): Promise<{ listing: ScrapedListing; signals: DuplicateSignals } | null> {
+    // Narrow the candidates down to listings sharing at least one strong signal
+    const or: Prisma.ScrapedListingWhereInput[] = [];
+    if (listing.phones.length > 0) or.push({ phones: { hasSome: listing.phones } });
+    if (listing.imageKeys.length > 0) or.push({ imageKeys: { hasSome: listing.imageKeys } });
+    if (listing.authorId) or.push({ authorId: listing.authorId });
+    if (listing.price && listing.location) or.push({ price: listing.price, location: listing.location });
+    if (or.length === 0) {
+      return null;
+    }
+
+    const candidates = await prisma.scrapedListing.findMany({
+      where: {
+        id: { not: listing.id },
+        scrapedAt: {
+          gte: new Date(listing.scrapedAt.getTime() - this.windowDays * 24 * 60 * 60 * 1000),
+          lt: listing.scrapedAt,
+        },
+        OR: or,
+      },
+      orderBy: { scrapedAt: 'asc' },
+      take: 50,
+    });
+
+    let best: { listing: ScrapedListing; signals: DuplicateSignals } | null = null;
+    for (const candidate of candidates) {
+      // Offers of a same post share their header and contact without being the same property
+      if (candidate.offerCount) continue;
+      if (listing.parentId && (candidate.parentId === listing.parentId || candidate.id === listing.parentId)) continue;
+
+      const signals = this.compare(listing, candidate);
+      if (signals.score >= this.threshold && (!best || signals.score > best.signals.score)) {
+        best = { listing: candidate, signals };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Similarity of two listings: identical photos are conclusive,
+   * otherwise text similarity reinforced by contact, price and location
+   */
+  compare(a: ScrapedListing, b: ScrapedListing): DuplicateSignals {
+    const textSimilarity = this.jaccard(this.words(a.originalText), this.words(b.originalText));
+
+    const phonesB = new Set(getListingPhones(b));
+    const sharedContact = getListingPhones(a).some(phone => phonesB.has(phone));
+
+    const imagesB = new Set(getImageKeys(b.images));
+    const sharedImages = a.images.some(url => imagesB.has(getImageKey(url)));
+
+    const samePriceAndLocation = Boolean(
+      a.price && a.price === b.price && a.location && b.location &&
+      (gazetteerService.matchesZone(a.location, b.location) || gazetteerService.matchesZone(b.location, a.location))
+    );
+
+    let score = textSimilarity;
+    if (sharedImages) {
+      score = 1;
+    } else {
+      if (sharedContact) score += 0.25;
+      if (samePriceAndLocation) score += 0.15;
+      // An agency reusing its template for another unit: same contact and price, different kind of property
+      if (a.propertyType && b.propertyType && a.propertyType !== b.propertyType) score = Math.min(score, 0.5);
+    }
+
+    return {
+      textSimilarity: Math.round(textSimilarity * 1000) / 1000,
+      sharedContact,
+      sharedImages,
+      samePriceAndLocation,
+      score: Math.round(Math.min(1, score) * 1000) / 1000,
+    };
+  }
+
+  /**
+   * Fill the phone and photo columns of listings scraped before they existed
+   */
+  async rebuildSignals(): Promise<number> {
+    let rebuilt = 0;
+    let cursor: string | undefined;
+
+    while (true) {
+      const listings = await prisma.scrapedListing.findMany({
+        select: { id: true, contact: true, originalText: true, images: true },
+        orderBy: { id: 'asc' },
+        take: 500,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      });
+      if (listings.length === 0) break;
+
+      for (const listing of listings) {
+        await prisma.scrapedListing.update({
+          where: { id: listing.id },
+          data: { phones: getListingPhones(listing), imageKeys: getImageKeys(listing.images) },
+        });
+        rebuilt++;
+      }
+      cursor = listings[listings.length - 1].id;
+    }
+
+    return rebuilt;
+  }
+
+  /**
+   * Words of 3 letters or more: reposts are usually reworded, not rewritten
+   */
+  private words(text: string): Set<string> {
+    return new Set(
+      normalizeText(text)
+        .replace(/[^a-z\s]/g, ' ')
+        .split(/\s+/)
+        .filter(word => word.length >= 3)
+    );
+  }
+
+  private jaccard(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+    let intersection = 0;
+    for (const item of a) {
+      if (b.has(item)) intersection++;
+    }
+    return intersection / (a.size + b.size - intersection);
+  }
+}
+
+export const duplicateDetectorService = new DuplicateDetectorService();
@@ -1,5 +1,14 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { FacebookGroup, ScrapeRun, ScrapeTrigger, ScraperErrorKind } from '@prisma/client';
 import { prisma } from '../config/database';
+import { preClassifierService } from './pre-classifier.service';
+import { offerSplitterService } from './offer-splitter.service';
+import { apiQuotaService } from './api-quota.service';
+import { groupSchedulerService } from './group-scheduler.service';
+import { scrapeRunService } from './scrape-run.service';
+import { ScraperError, classifyScraperError } from '../utils/scraper-errors';
+import { getImageKeys } from '../utils/image';
+import { getListingPhones } from '../utils/phone';
 
 // Default real estate keywords for Gabon/Africa — used when group has no custom keywords
 export const DEFAULT_IMMO_KEYWORDS = [
@@ -36,12 +45,55 @@ export interface ScrapingResult {
   posts: FacebookPost[];
   cursor?: string | null;
   error?: string;
+  errorKind?: ScraperErrorKind;
+  retryAfterMs?: number;
+  reachedMark?: boolean;   // Pagination got back to the last post seen in the previous run
+  partial?: boolean;       // A later page failed: posts between the last page and the mark are missing
+  pages?: number;          // Pages fetched successfully
+  apiCalls?: number;       // Retries included
+}
+
+export interface GroupScrapeResult {
+  result: ScrapingResult;
+  posts: FacebookPost[];   // Fetched posts matching the group keywords
+  newListingIds: string[];
+  run: ScrapeRun;
+}
+
+// Calls made for one operation, retries included
+interface RequestUsage {
+  apiCalls: number;
+}
+
+// Newest post already scraped in a group
+export interface HighWaterMark {
+  postAt?: Date | null;
+  postId?: string | null;
 }
 
 export class FacebookScraperService {
   private client: AxiosInstance;
+  private maxPages: number;
+  private initialLookbackHours: number;
+  private catchUpHours: number;
+  private maxRetries: number;
+  private retryBaseMs: number;
+  private retryMaxMs: number;
+  private running = false; // A slow run must not be started again by the next cron tick or a manual trigger
 
   constructor() {
+    // Catch-up limit: pages fetched per group and run (API returns ~3 posts per page)
+    this.maxPages = parseInt(process.env.SCRAPER_MAX_PAGES || '20');
+    // How far back the first scrape of a group goes
+    this.initialLookbackHours = parseInt(process.env.SCRAPER_INITIAL_LOOKBACK_HOURS || '48');
+    // After a long downtime, older posts are given up
+    this.catchUpHours = parseInt(process.env.SCRAPER_CATCHUP_HOURS || '72');
+    // Retries of rate-limited, upstream and network errors, with exponential backoff
+    this.maxRetries = parseInt(process.env.SCRAPER_MAX_RETRIES || '3');
+    this.retryBaseMs = parseInt(process.env.SCRAPER_RETRY_BASE_MS || '2000');
+    // A longer Retry-After gives up the call instead of blocking the run
+    this.retryMaxMs = parseInt(process.env.SCRAPER_RETRY_MAX_MS || '60000');
+
     const host = process.env.RAPIDAPI_HOST || 'facebook-scraper3.p.rapidapi.com';
 
     this.client = axios.create({
@@ -53,9 +105,16 @@ export class FacebookScraperService {
       timeout: 60000,
     });
 
+    // Every call counts against the RapidAPI plan
     this.client.interceptors.response.use(
-      (response) => response,
+      (response) => {
+        apiQuotaService.record(response.status, response.headers)
+          .catch(error => console.error('Error recording API usage:', error));
+        return response;
+      },
       (error) => {
+        apiQuotaService.record(error.response?.status ?? null, error.response?.headers)
+          .catch(recordError => console.error('Error recording API usage:', recordError));
         console.error('Facebook Scraper API Error:', {
           status: error.response?.status,
           data: error.response?.data,
@@ -75,7 +134,7 @@ export class FacebookScraperService {
       const params: Record<string, string> = { query };
       if (cursor) params.cursor = cursor;
 
-      const response = await this.client.get('/search/groups', { params });
+      const response = await this.request('/search/groups', params);
       return response.data;
     } catch (error) {
       console.error('Error searching groups:', error);
@@ -89,9 +148,7 @@ export class FacebookScraperService {
    */
   async getGroupDetails(groupUrl: string): Promise<any> {
     try {
-      const response = await this.client.get('/group/details', {
-        params: { url: groupUrl },
-      });
+      const response = await this.request('/group/details', { url: groupUrl });
       return response.data;
     } catch (error) {
       console.error('Error fetching group details:', error);
@@ -105,9 +162,7 @@ export class FacebookScraperService {
    */
   async getGroupId(groupUrl: string): Promise<any> {
     try {
-      const response = await this.client.get('/group/id', {
-        params: { url: groupUrl },
-      });
+      const response = await this.request('/group/id', { url: groupUrl });
       return response.data;
     } catch (error) {
       console.error('Error fetching group ID:', error);
@@ -120,6 +175,7 @@ export class FacebookScraperService {
    * GET /group/posts?group_id=...&sorting_order=CHRONOLOGICAL&cursor=...
    */
   async getGroupPostsPage(groupId: string, cursor?: string): Promise<ScrapingResult> {
+    const usage: RequestUsage = { apiCalls: 0 };
     try {
       const params: Record<string, string> = {
         group_id: groupId,
@@ -127,7 +183,7 @@ export class FacebookScraperService {
       };
       if (cursor) params.cursor = cursor;
 
-      const response = await this.client.get('/group/posts', { params });
+      const response = await this.request('/group/posts', params, usage);
 
       const posts = this.parsePosts(response.data);
 
@@ -135,56 +191,78 @@ export class FacebookScraperService {
         success: true,
         posts,
         cursor: response.data?.cursor || null,
+        pages: 1,
+        apiCalls: usage.apiCalls,
       };
     } catch (error) {
-      console.error(`Error fetching posts for group ${groupId}:`, error);
-      return {
-        success: false,
-        posts: [],
-        error: 'Failed to fetch group posts',
-      };
+      const scraperError = classifyScraperError(error);
+      console.error(`Error fetching posts for group ${groupId}: ${scraperError.message}`);
+      return this.failedResult(scraperError, usage.apiCalls);
     }
   }
 
   /**
-   * Get posts from a group with automatic pagination
-   * Fetches up to `maxPages` pages (API returns ~3 posts per page)
+   * Get the posts published since the high-water mark, paginating until it is reached.
+   * Without a mark (first scrape) posts of the initial lookback window are fetched;
+   * after a downtime longer than the catch-up window, older posts are skipped.
    */
-  async getGroupPosts(groupId: string, maxPages: number = 3): Promise<ScrapingResult> {
+  async getGroupPosts(groupId: string, mark: HighWaterMark = {}): Promise<ScrapingResult> {
     const allPosts: FacebookPost[] = [];
     let currentCursor: string | undefined;
     let lastCursor: string | null = null;
-    const cutoff48h = Date.now() - 48 * 60 * 60 * 1000;
+    let reachedMark = false;
+    let partial = false;
+    let pages = 0;
+    let apiCalls = 0;
+
+    const floor = Date.now() - (mark.postAt ? this.catchUpHours : this.initialLookbackHours) * 60 * 60 * 1000;
+    const since = Math.max(mark.postAt?.getTime() ?? 0, floor);
 
-    for (let page = 0; page < maxPages; page++) {
+    for (let page = 0; page < this.maxPages; page++) {
       const result = await this.getGroupPostsPage(groupId, currentCursor);
+      apiCalls += result.apiCalls ?? 0;
 
       if (!result.success) {
         if (page === 0) return result;
+        partial = true;
         break;
       }
+      pages++;
 
-      // Filter: only posts from last 48 hours
-      let hasOldPost = false;
       for (const post of result.posts) {
-        if (post.timestamp && post.timestamp * 1000 < cutoff48h) {
-          hasOldPost = true;
+        if (mark.postId && post.id === mark.postId) {
+          reachedMark = true;
           continue;
         }
+        // Posts of the same second as the mark are kept, the postId check of scrapeGroup skips the ones already seen
+        if (post.timestamp && post.timestamp * 1000 < since) continue;
         allPosts.push(post);
       }
 
+      // A pinned old post can show up on top: only the oldest post of the page decides
+      const oldest = result.posts.filter(post => post.timestamp).pop();
+      if (oldest && (oldest.timestamp as number) * 1000 < since) {
+        reachedMark = true;
+      }
+
       lastCursor = result.cursor || null;
 
-      // Stop paginating if we hit old posts or no more pages
-      if (hasOldPost || !result.cursor || result.posts.length === 0) break;
+      if (reachedMark || !result.cursor || result.posts.length === 0) break;
       currentCursor = result.cursor;
     }
 
+    if (!reachedMark && lastCursor && !partial) {
+      console.warn(`⚠️ Group ${groupId}: catch-up limit of ${this.maxPages} pages reached, older posts skipped`);
+    }
+
     return {
       success: true,
       posts: allPosts,
       cursor: lastCursor,
+      reachedMark,
+      partial,
+      pages,
+      apiCalls,
     };
   }
 
@@ -193,12 +271,13 @@ export class FacebookScraperService {
    * GET /search/groups_posts?query=...&group_id=...&cursor=...
    */
   async searchGroupPosts(query: string, groupId?: string, cursor?: string): Promise<ScrapingResult> {
+    const usage: RequestUsage = { apiCalls: 0 };
     try {
       const params: Record<string, string> = { query };
       if (groupId) params.group_id = groupId;
       if (cursor) params.cursor = cursor;
 
-      const response = await this.client.get('/search/groups_posts', { params });
+      const response = await this.request('/search/groups_posts', params, usage);
 
       const posts = this.parsePosts(response.data);
 
@@ -206,32 +285,72 @@ export class FacebookScraperService {
         success: true,
         posts,
         cursor: response.data?.cursor || null,
+        pages: 1,
+        apiCalls: usage.apiCalls,
       };
     } catch (error) {
-      console.error('Error searching group posts:', error);
-      return {
-        success: false,
-        posts: [],
-        error: 'Failed to search group posts',
-      };
+      const scraperError = classifyScraperError(error);
+      console.error(`Error searching group posts: ${scraperError.message}`);
+      return this.failedResult(scraperError, usage.apiCalls);
     }
   }
 
   /**
-   * Get detailed information about a specific post
+   * Get detailed information about a specific post, null when the post no longer exists
    */
   async getPostDetails(postId: string): Promise<any> {
     try {
-      const response = await this.client.get('/post/details', {
-        params: { id: postId },
-      });
+      const response = await this.request('/post/details', { id: postId });
       return response.data;
     } catch (error) {
+      // Deleted posts and posts of groups we lost access to
+      if (error instanceof ScraperError && error.status === 404) {
+        return null;
+      }
       console.error(`Error fetching post details for ${postId}:`, error);
       throw new Error('Failed to fetch post details');
     }
   }
 
+  /**
+   * GET with retries: exponential backoff with jitter, or the delay asked by Retry-After.
+   * Throws a ScraperError once the call cannot succeed or the retries are exhausted.
+   */
+  private async request(path: string, params: Record<string, string>, usage?: RequestUsage): Promise<AxiosResponse> {
+    for (let attempt = 0; ; attempt++) {
+      if (usage) usage.apiCalls++;
+      try {
+        return await this.client.get(path, { params });
+      } catch (error) {
+        const scraperError = classifyScraperError(error);
+        if (!scraperError.retryable || attempt >= this.maxRetries) {
+          throw scraperError;
+        }
+
+        const backoff = this.retryBaseMs * 2 ** attempt;
+        const delay = scraperError.retryAfterMs ?? backoff / 2 + Math.random() * backoff / 2;
+        if (delay > this.retryMaxMs) {
+          throw scraperError;
+        }
+
+        console.warn(`⏳ ${path}: ${scraperError.message}, retry ${attempt + 1}/${this.maxRetries} in ${Math.round(delay / 1000)}s`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private failedResult(error: ScraperError, apiCalls: number): ScrapingResult {
+    return {
+      success: false,
+      posts: [],
+      error: error.message,
+      errorKind: error.kind,
+      retryAfterMs: error.retryAfterMs,
+      pages: 0,
+      apiCalls,
+    };
+  }
+
   /**
    * Parse posts from API response
    * API returns { posts: [...] } format
@@ -312,40 +431,80 @@ export class FacebookScraperService {
   }
 
   /**
-   * Scrape all configured groups
+   * Scrape all configured groups, except the ones paused by their circuit breaker
    */
   async scrapeAllGroups(): Promise<void> {
-    const groups = await prisma.facebookGroup.findMany({
-      where: { isActive: true },
-    });
+    if (this.running) {
+      console.log('⏳ A scrape run is already in progress, manual scrape skipped');
+      return;
+    }
+
+    this.running = true;
+    try {
+      const groups = await prisma.facebookGroup.findMany({
+        where: {
+          isActive: true,
+          OR: [{ circuitOpenUntil: null }, { circuitOpenUntil: { lte: new Date() } }],
+        },
+        orderBy: { priority: 'desc' },
+      });
+      await this.scrapeGroups(groups, 'MANUAL');
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Scrape the groups whose planned scrape time has come.
+   * Skipped while the previous run is still going.
+   */
+  async scrapeDueGroups(): Promise<number> {
+    if (this.running) {
+      console.log('⏳ Previous scrape run still in progress, skipping this round');
+      return 0;
+    }
+
+    this.running = true;
+    try {
+      const groups = await groupSchedulerService.getDueGroups();
+      await this.scrapeGroups(groups, 'SCHEDULED');
+      return groups.length;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Scrape groups one after the other. The run stops when the API key is rate limited, or when
+   * the API looks down: the remaining groups stay due and are picked up by the next run.
+   */
+  private async scrapeGroups(groups: FacebookGroup[], trigger: ScrapeTrigger): Promise<void> {
+    let upstreamFailures = 0;
 
     for (const group of groups) {
       try {
         console.log(`🔍 Scraping group: ${group.name}`);
 
-        const result = await this.getGroupPosts(group.groupId);
+        const { result, posts, newListingIds, run } = await this.scrapeGroup(group, trigger);
 
         if (!result.success) {
           console.error(`❌ Failed to scrape group ${group.name}: ${result.error}`);
-          continue;
-        }
 
-        let newPosts = 0;
-        for (const post of result.posts) {
-          const listingId = await this.processPost(post, group);
-          if (listingId) newPosts++;
+          if (result.errorKind === 'RATE_LIMITED') {
+            console.warn('⏸️ RapidAPI rate limit reached, scrape run stopped');
+            break;
+          }
+          upstreamFailures = result.errorKind === 'UPSTREAM' || result.errorKind === 'NETWORK' ? upstreamFailures + 1 : 0;
+          if (upstreamFailures >= 3) {
+            console.warn('⏸️ Scraper API unreachable for 3 groups in a row, scrape run stopped');
+            break;
+          }
+          continue;
         }
 
-        // Update last scraped timestamp and stats
-        await prisma.facebookGroup.update({
-          where: { id: group.id },
-          data: {
-            lastScrapedAt: new Date(),
-            totalPosts: { increment: newPosts },
-          },
-        });
+        upstreamFailures = 0;
 
-        console.log(`✅ Scraped ${result.posts.length} posts from ${group.name} (${newPosts} new)`);
+        console.log(`✅ Scraped ${result.posts.length} posts from ${group.name} (${posts.length} relevant, ${newListingIds.length} new, ${run.duplicates} already seen)`);
       } catch (error) {
         console.error(`❌ Error scraping group ${group.name}:`, error);
       }
@@ -353,9 +512,136 @@ export class FacebookScraperService {
   }
 
   /**
-   * Process a single post — returns true if a new listing was created
+   * Fetch the new posts of a group, save the relevant ones and move its high-water mark.
+   * A success closes the circuit breaker of the group, a failure may open it. Every scrape is saved as a run.
    */
-  async processPost(post: FacebookPost, group: { id: string; name: string; keywords: string[] }): Promise<string | null> {
+  async scrapeGroup(group: FacebookGroup, trigger: ScrapeTrigger = 'SCHEDULED'): Promise<GroupScrapeResult> {
+    const startedAt = new Date();
+    const result = await this.getGroupPosts(group.groupId, {
+      postAt: group.lastSeenPostAt,
+      postId: group.lastSeenPostId,
+    });
+
+    if (!result.success) {
+      const error = new ScraperError(result.error || 'Failed to fetch group posts', result.errorKind || 'UNKNOWN', undefined, result.retryAfterMs);
+      await this.recordFailure(group, error);
+      const run = await scrapeRunService.record({
+        groupId: group.id,
+        trigger,
+        startedAt,
+        success: false,
+        errorKind: error.kind,
+        error: error.message,
+        errors: 1,
+        apiCalls: result.apiCalls ?? 0,
+      });
+      return { result, posts: [], newListingIds: [], run };
+    }
+
+    const posts = this.filterByKeywords(result.posts, group.keywords);
+    const existing = await prisma.scrapedListing.findMany({
+      where: { postId: { in: posts.map(post => post.id) } },
+      select: { postId: true },
+    });
+    const seenPostIds = new Set(existing.map(listing => listing.postId));
+
+    const newListingIds: string[] = [];
+    let errors = result.partial ? 1 : 0;
+    for (const post of posts) {
+      if (seenPostIds.has(post.id)) continue;
+      try {
+        const listingId = await this.processPost(post, group);
+        if (listingId) newListingIds.push(listingId);
+      } catch (error) {
+        errors++;
+        console.error(`Error saving post ${post.id} from ${group.name}:`, error);
+      }
+    }
+
+    // The mark only moves forward, to the newest post fetched whether relevant or not
+    const newest = result.posts
+      .filter(post => post.timestamp)
+      .reduce<FacebookPost | null>((latest, post) => (!latest || (post.timestamp as number) > (latest.timestamp as number) ? post : latest), null);
+    // After a partial fetch the posts between the last page and the mark are fetched again next time
+    const markMoves = !result.partial && newest && (!group.lastSeenPostAt || (newest.timestamp as number) * 1000 > group.lastSeenPostAt.getTime());
+    const schedule = await groupSchedulerService.planNextScrape(group, result.posts.length);
+
+    await prisma.facebookGroup.update({
+      where: { id: group.id },
+      data: {
+        lastScrapedAt: new Date(),
+        totalPosts: { increment: newListingIds.length },
+        postsPerDay: schedule.postsPerDay,
+        scrapeIntervalMinutes: schedule.scrapeIntervalMinutes,
+        nextScrapeAt: schedule.nextScrapeAt,
+        consecutiveFailures: 0,
+        circuitOpenUntil: null,
+        ...(markMoves && newest ? {
+          lastSeenPostAt: new Date((newest.timestamp as number) * 1000),
+          lastSeenPostId: newest.id,
+        } : {}),
+      },
+    });
+
+    const run = await scrapeRunService.record({
+      groupId: group.id,
+      trigger,
+      startedAt,
+      success: true,
+      reachedMark: result.reachedMark ?? false,
+      pagesFetched: result.pages ?? 0,
+      postsFetched: result.posts.length,
+      keywordFiltered: result.posts.length - posts.length,
+      newPosts: newListingIds.length,
+      duplicates: posts.filter(post => seenPostIds.has(post.id)).length,
+      errors,
+      apiCalls: result.apiCalls ?? 0,
+    });
+
+    return { result, posts, newListingIds, run };
+  }
+
+  /**
+   * Schedule the retry of a failed group and pause it when it keeps failing
+   */
+  private async recordFailure(group: FacebookGroup, error: ScraperError): Promise<void> {
+    const { data, circuitOpenUntil } = groupSchedulerService.planFailure(group, error);
+    await prisma.facebookGroup.update({ where: { id: group.id }, data });
+
+    if (circuitOpenUntil) {
+      console.warn(`🔌 Group ${group.name} paused until ${circuitOpenUntil.toISOString()} after ${group.consecutiveFailures + 1} failures: ${error.message}`);
+      await prisma.activityLog.create({
+        data: {
+          action: 'GROUP_CIRCUIT_OPENED',
+          entityType: 'FacebookGroup',
+          entityId: group.id,
+          metadata: {
+            errorKind: error.kind,
+            error: error.message,
+            consecutiveFailures: group.consecutiveFailures + 1,
+            pausedUntil: circuitOpenUntil.toISOString(),
+          },
+        },
+      });
+    }
+  }
+
+  /**
+   * Keep posts containing at least one of the group keywords (or the default real estate ones)
+   */
+  filterByKeywords(posts: FacebookPost[], groupKeywords: string[]): FacebookPost[] {
+    const keywords = groupKeywords.length > 0 ? groupKeywords : DEFAULT_IMMO_KEYWORDS;
+    return posts.filter(post => {
+      const textLower = post.text.toLowerCase();
+      return keywords.some(kw => textLower.includes(kw.toLowerCase()));
+    });
+  }
+
+  /**
+   * Process a single post — returns the id of the new listing, null when it was already scraped.
+   * Posts found by a global search have no monitored group (id null).
+   */
+  async processPost(post: FacebookPost, group: { id: string | null; name: string }): Promise<string | null> {
     if (!post.id || !post.text) return null;
 
     // Check if post already exists
@@ -365,6 +651,10 @@ export class FacebookScraperService {
 
     if (existing) return null;
 
+    // Posts rejected by the pre-classifier are kept for review but never reach the LLM
+    const classification = await preClassifierService.classify(post.text);
+    const offers = offerSplitterService.split(post.text);
+
     // Create new listing
     const listing = await prisma.scrapedListing.create({
       data: {
@@ -377,11 +667,46 @@ export class FacebookScraperService {
         authorId: post.author?.id,
         originalText: post.text,
         images: post.images || [],
+        phones: getListingPhones({ contact: null, originalText: post.text }),
+        imageKeys: getImageKeys(post.images || []),
         postedAt: post.time ? new Date(post.time) : new Date(),
-        isValid: true,
+        preClassifierScore: classification.score,
+        preClassifierPassed: classification.passed,
+        isValid: classification.passed,
+        offerCount: offers.length > 0 ? offers.length : null,
       },
     });
 
+    // One child listing per offer, each classified, enriched and matched on its own.
+    // Photos cannot be attributed to one offer and stay on the parent.
+    for (const [index, text] of offers.entries()) {
+      const offerClassification = await preClassifierService.classify(text);
+      await prisma.scrapedListing.create({
+        data: {
+          source: 'FACEBOOK',
+          groupId: group.id,
+          groupName: group.name,
+          postId: `${post.id}#${index + 1}`,
+          postUrl: post.url,
+          authorName: post.author?.name,
+          authorId: post.author?.id,
+          originalText: text,
+          images: [],
+          phones: getListingPhones({ contact: null, originalText: text }),
+          postedAt: listing.postedAt,
+          preClassifierScore: offerClassification.score,
+          preClassifierPassed: offerClassification.passed,
+          isValid: offerClassification.passed,
+          parentId: listing.id,
+          offerIndex: index + 1,
+        },
+      });
+    }
+
+    if (offers.length > 0) {
+      console.log(`✂️ Post ${post.id} split into ${offers.length} offers`);
+    }
+
     return listing.id;
   }
 
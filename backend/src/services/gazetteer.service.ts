@@ -0,0 +1,172 @@
+import { GABON_PLACES, Place } from '../data/gabon-gazetteer';
+import { normalizeText } from '../utils/text';
+
+/**
+ * Lookup key: accents, case and punctuation removed, "PK 8" glued to "pk8"
+ */
+function toKey(value: string): string {
+  return normalizeText(value)
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(/\bpk\s+(\d)/g, 'pk$1')
+    .trim();
+}
+
+/**
+ * Great-circle distance between two coordinates
+ */
+function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Resolves free-text locations against the offline Gabon gazetteer
+ */
+export class GazetteerService {
+  private places = new Map<string, Place>();
+  private names: Array<{ key: string; place: Place }> = [];
+
+  constructor(places: Place[] = GABON_PLACES) {
+    for (const place of places) {
+      this.places.set(place.id, place);
+      for (const name of [place.name, ...(place.aliases || [])]) {
+        this.names.push({ key: toKey(name), place });
+      }
+    }
+
+    // Longest names first so "Akébé Plaine" wins over "Akébé"
+    this.names.sort((a, b) => b.key.length - a.key.length);
+  }
+
+  /**
+   * Every known place mentioned in a text, most specific ones only
+   */
+  resolve(text: string): Place[] {
+    let haystack = ` ${toKey(text)} `;
+    const found: Place[] = [];
+
+    for (const { key, place } of this.names) {
+      const needle = ` ${key} `;
+      if (!haystack.includes(needle)) continue;
+
+      haystack = haystack.replace(needle, ' '.repeat(needle.length));
+      if (!found.includes(place)) found.push(place);
+    }
+
+    // "Angondjé, Akanda" is just Angondjé
+    return found.filter(place => !found.some(other => other !== place && this.isWithin(other, place)));
+  }
+
+  /**
+   * Canonical form of a listing location, e.g. "angondje akanda" -> "Angondjé, Akanda".
+   * Unknown locations are returned unchanged.
+   */
+  normalizeLocation(location: string): string {
+    const places = this.resolve(location);
+    if (places.length === 0) return location.trim();
+
+    return places.map(place => {
+      const city = this.getCity(place);
+      return city && city !== place ? `${place.name}, ${city.name}` : place.name;
+    }).join(' / ');
+  }
+
+  /**
+   * Canonical spelling of the zones chosen by a user, without duplicates
+   */
+  normalizeZones(zones: string[]): string[] {
+    const normalized = zones.map(zone => this.normalizeZone(zone));
+
+    return normalized.filter((zone, index) =>
+      normalized.findIndex(other => toKey(other) === toKey(zone)) === index
+    );
+  }
+
+  /**
+   * Canonical spelling of a single zone, unchanged when unknown or ambiguous
+   */
+  normalizeZone(zone: string): string {
+    const places = this.resolve(zone);
+    return places.length === 1 ? places[0].name : zone.trim();
+  }
+
+  /**
+   * Same as normalizeZones for the keys of a radius map
+   */
+  normalizeZoneRadii(radii: Record<string, number>): Record<string, number> {
+    return Object.fromEntries(Object.entries(radii).map(([zone, km]) => [this.normalizeZone(zone), km]));
+  }
+
+  /**
+   * Approximate distance in km between a listing location and a zone,
+   * or null when either has no known coordinates. Whole cities are too
+   * coarse to be measured from and are left to matchesZone.
+   */
+  distanceKm(listingLocation: string, zone: string): number | null {
+    const located = (text: string) => this.resolve(text)
+      .filter(place => place.kind !== 'city' && place.lat !== undefined && place.lng !== undefined);
+
+    const listingPlaces = located(listingLocation);
+    const zonePlaces = located(zone);
+    let closest: number | null = null;
+
+    for (const from of listingPlaces) {
+      for (const to of zonePlaces) {
+        const distance = haversineKm(from.lat!, from.lng!, to.lat!, to.lng!);
+        if (closest === null || distance < closest) closest = distance;
+      }
+    }
+
+    return closest;
+  }
+
+  /**
+   * Whether a listing location falls inside a zone wanted by a user.
+   * A user asking for "Akanda" matches "Angondjé", but a listing only saying
+   * "Libreville" does not match a user asking for "Akébé".
+   */
+  matchesZone(listingLocation: string, zone: string): boolean {
+    const listingPlaces = this.resolve(listingLocation);
+    const zonePlaces = this.resolve(zone);
+
+    if (listingPlaces.length === 0 || zonePlaces.length === 0) {
+      // Unknown place: fall back to a spelling-tolerant text match
+      const zoneKey = toKey(zone);
+      return zoneKey.length > 0 && ` ${toKey(listingLocation)} `.includes(` ${zoneKey} `);
+    }
+
+    return listingPlaces.some(place => zonePlaces.some(wanted => this.isWithin(place, wanted)));
+  }
+
+  /**
+   * Find a place by id
+   */
+  getPlace(id: string): Place | undefined {
+    return this.places.get(id);
+  }
+
+  /**
+   * Whether a place is the same as, or located inside, another one
+   */
+  isWithin(place: Place, container: Place): boolean {
+    let current: Place | undefined = place;
+    while (current) {
+      if (current.id === container.id) return true;
+      current = current.parentId ? this.places.get(current.parentId) : undefined;
+    }
+    return false;
+  }
+
+  private getCity(place: Place): Place | undefined {
+    let current: Place | undefined = place;
+    while (current && current.kind !== 'city') {
+      current = current.parentId ? this.places.get(current.parentId) : undefined;
+    }
+    return current;
+  }
+}
+
+export const gazetteerService = new GazetteerService();
@@ -0,0 +1,245 @@
+import { GroupCandidate } from '@prisma/client';
+import { prisma } from '../config/database';
+import { apiQuotaService } from './api-quota.service';
+import { facebookScraperService, FacebookPost } from './facebook-scraper.service';
+
+// Queries created for a new city when the admin gives none
+export const DEFAULT_DISCOVERY_QUERIES = [
+  'location {city}',
+  'appartement à louer {city}',
+  'maison à vendre {city}',
+  'immobilier {city}',
+  'terrain à vendre {city}',
+];
+
+export interface DiscoveryResult {
+  queries: number;
+  found: number;
+  newCandidates: number;
+  sampled: number;
+}
+
+/**
+ * Finds groups worth monitoring: runs the saved queries of each city, sets aside the groups
+ * already monitored or dismissed, samples the recent posts of the others and ranks them
+ * by their share of real estate posts
+ */
+export class GroupDiscoveryService {
+  private samplePages: number;
+  private sampleLimit: number;
+  private resampleDays: number;
+
+  constructor() {
+    // Pages of posts read per candidate (API returns ~3 posts per page)
+    this.samplePages = parseInt(process.env.DISCOVERY_SAMPLE_PAGES || '3');
+    // Candidates sampled per run, each sample costs `samplePages` calls
+    this.sampleLimit = parseInt(process.env.DISCOVERY_SAMPLE_LIMIT || '10');
+    this.resampleDays = parseInt(process.env.DISCOVERY_RESAMPLE_DAYS || '30');
+  }
+
+  /**
+   * Queries for a city from the default templates
+   */
+  defaultQueries(city: string): string[] {
+    return DEFAULT_DISCOVERY_QUERIES.map(template => template.replace('{city}', city));
+  }
+
+  /**
+   * Run the active queries (of one city or all), then sample the best unsampled candidates
+   */
+  async run(city?: string): Promise<DiscoveryResult> {
+    const queries = await prisma.discoveryQuery.findMany({
+      where: { isActive: true, ...(city ? { city } : {}) },
+      orderBy: { lastRunAt: { sort: 'asc', nulls: 'first' } },
+    });
+    const monitored = new Set(
+      (await prisma.facebookGroup.findMany({ select: { groupId: true } })).map(group => group.groupId)
+    );
+
+    let ran = 0;
+    let found = 0;
+    let newCandidates = 0;
+
+    for (const query of queries) {
+      // Group search is a paid call: stop once the budget is needed for the monitored groups.
+      // Queries left over run first next time, being the oldest.
+      if (!(await apiQuotaService.canSpendOptional())) {
+        console.log(`🧭 Discovery stopped after ${ran} of ${queries.length} queries: API budget reached`);
+        break;
+      }
+      ran++;
+
+      let results: any[];
+      try {
+        results = this.parseSearchResults(await facebookScraperService.searchGroups(query.query));
+      } catch (error) {
+        console.error(`Error running discovery query "${query.query}":`, error);
+        continue;
+      }
+
+      await prisma.discoveryQuery.update({
+        where: { id: query.id },
+        data: { lastRunAt: new Date(), lastResultCount: results.length },
+      });
+
+      for (const result of results) {
+        const groupId = result.id ? String(result.id) : '';
+        if (!groupId) continue;
+        found++;
+
+        const existing = await prisma.groupCandidate.findUnique({ where: { groupId } });
+
+        // Added from the search panel or by hand since it was discovered
+        if (monitored.has(groupId)) {
+          if (existing?.status === 'NEW') {
+            await prisma.groupCandidate.update({ where: { id: existing.id }, data: { status: 'ADDED' } });
+          }
+          continue;
+        }
+
+        const details = {
+          name: result.name || existing?.name || 'Groupe Facebook',
+          description: result.description || existing?.description || null,
+          url: result.url || existing?.url || null,
+          membersCount: Number(result.members_count) || existing?.membersCount || null,
+          privacy: result.privacy || existing?.privacy || null,
+        };
+
+        if (existing) {
+          await prisma.groupCandidate.update({
+            where: { id: existing.id },
+            data: {
+              ...details,
+              cities: Array.from(new Set([...existing.cities, query.city])),
+              queries: Array.from(new Set([...existing.queries, query.query])),
+            },
+          });
+        } else {
+          await prisma.groupCandidate.create({
+            data: { groupId, ...details, cities: [query.city], queries: [query.query] },
+          });
+          newCandidates++;
+        }
+      }
+    }
+
+    const sampled = await this.sampleCandidates();
+    console.log(`🧭 Discovery: ${ran} queries, ${found} groups found, ${newCandidates} new candidates, ${sampled} sampled`);
+
+    return { queries: ran, found, newCandidates, sampled };
+  }
+
+  /**
+   * Sample the largest candidates never sampled, or sampled long ago
+   */
+  async sampleCandidates(): Promise<number> {
+    // Reading posts of groups we do not monitor comes after scraping the ones we do
+    if (!(await apiQuotaService.canSpendOptional())) {
+      return 0;
+    }
+
+    const candidates = await prisma.groupCandidate.findMany({
+      where: {
+        status: 'NEW',
+        OR: [
+          { sampledAt: null },
+          { sampledAt: { lt: new Date(Date.now() - this.resampleDays * 24 * 60 * 60 * 1000) } },
+        ],
+      },
+      orderBy: [{ sampledAt: { sort: 'asc', nulls: 'first' } }, { membersCount: { sort: 'desc', nulls: 'last' } }],
+      take: this.sampleLimit,
+    });
+
+    for (const candidate of candidates) {
+      try {
+        await this.sampleCandidate(candidate);
+      } catch (error) {
+        console.error(`Error sampling candidate group ${candidate.groupId}:`, error);
+      }
+    }
+
+    return candidates.length;
+  }
+
+  /**
+   * Read a few pages of recent posts and score the share of real estate posts
+   */
+  async sampleCandidate(candidate: GroupCandidate): Promise<GroupCandidate> {
+    const posts: FacebookPost[] = [];
+    let cursor: string | undefined;
+
+    for (let page = 0; page < this.samplePages; page++) {
+      const result = await facebookScraperService.getGroupPostsPage(candidate.groupId, cursor);
+      if (!result.success) {
+        if (page === 0) {
+          return prisma.groupCandidate.update({
+            where: { id: candidate.id },
+            data: { sampleError: result.error || 'Failed to fetch group posts', sampledAt: new Date(), score: null },
+          });
+        }
+        break;
+      }
+
+      posts.push(...result.posts);
+      if (!result.cursor || result.posts.length === 0) break;
+      cursor = result.cursor;
+    }
+
+    // Same keyword list as the scrape filter of groups without custom keywords
+    const keywordDensity = posts.length > 0 ? facebookScraperService.filterByKeywords(posts, []).length / posts.length : 0;
+    const postsPerDay = this.estimatePostsPerDay(posts);
+
+    return prisma.groupCandidate.update({
+      where: { id: candidate.id },
+      data: {
+        sampledPosts: posts.length,
+        keywordDensity: Math.round(keywordDensity * 100) / 100,
+        postsPerDay: Math.round(postsPerDay * 10) / 10,
+        sampleError: null,
+        sampledAt: new Date(),
+        score: this.rank(keywordDensity, postsPerDay, candidate.membersCount),
+      },
+    });
+  }
+
+  /**
+   * Start monitoring a candidate with the default keywords
+   */
+  async addCandidate(candidate: GroupCandidate): Promise<GroupCandidate> {
+    await facebookScraperService.addGroup(candidate.groupId, candidate.name);
+
+    return prisma.groupCandidate.update({
+      where: { id: candidate.id },
+      data: { status: 'ADDED' },
+    });
+  }
+
+  /**
+   * Density first: a small group full of listings beats a large group of chatter.
+   * Activity and size only separate groups of similar density.
+   */
+  private rank(keywordDensity: number, postsPerDay: number, membersCount: number | null): number {
+    const activity = Math.min(1, postsPerDay / 5);
+    const size = membersCount ? Math.min(1, Math.log10(membersCount) / 5) : 0;
+    return Math.round(keywordDensity * (0.5 + 0.3 * activity + 0.2 * size) * 100) / 100;
+  }
+
+  private estimatePostsPerDay(posts: FacebookPost[]): number {
+    const timestamps = posts
+      .map(post => post.timestamp)
+      .filter((timestamp): timestamp is number => !!timestamp)
+      .sort((a, b) => a - b);
+    if (timestamps.length < 2) return 0;
+
+    // At least an hour, a burst of posts says little about a whole day
+    const spanDays = Math.max((timestamps[timestamps.length - 1] - timestamps[0]) / (24 * 60 * 60), 1 / 24);
+    return (timestamps.length - 1) / spanDays;
+  }
+
+  private parseSearchResults(data: any): any[] {
+    const results = data?.results || data?.groups || data?.data || [];
+    return Array.isArray(results) ? results : [];
+  }
+}
+
+export const groupDiscoveryService = new GroupDiscoveryService();
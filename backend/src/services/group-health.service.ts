@@ -0,0 +1,174 @@
+import { FacebookGroup, GroupHealthStatus, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+
+export interface GroupHealthMetrics {
+  postsPerDay: number;
+  validRatio: number | null;        // Share of the settled posts that are real listings, null below 10 posts
+  matchRatio: number | null;        // Share of the real listings matched to a user, null below 10 listings
+  errorRate: number | null;         // Share of failed scrapes over 7 days, null below 3 runs
+  hoursSinceScrape: number;         // Since its creation when never scraped
+}
+
+export interface GroupHealthIssue {
+  code: 'INACTIVE' | 'OFF_TOPIC' | 'NO_MATCHES' | 'ERRORS' | 'STALE';
+  label: string;
+}
+
+export interface GroupHealth {
+  score: number;   // 0-1
+  status: GroupHealthStatus;
+  issues: GroupHealthIssue[];
+  metrics: GroupHealthMetrics;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Health of the monitored groups: a group going quiet, turning into chatter or spam, or failing
+ * to scrape is flagged, and optionally deactivated
+ */
+export class GroupHealthService {
+  private minPostsPerDay: number;
+  private minValidRatio: number;
+  private minMatchRatio: number;
+  private maxErrorRate: number;
+  private staleHours: number;
+  private autoDeactivateBelow: number;
+  private graceDays: number;
+
+  constructor() {
+    this.minPostsPerDay = parseFloat(process.env.GROUP_HEALTH_MIN_POSTS_PER_DAY || '0.5');
+    this.minValidRatio = parseFloat(process.env.GROUP_HEALTH_MIN_VALID_RATIO || '0.15');
+    this.minMatchRatio = parseFloat(process.env.GROUP_HEALTH_MIN_MATCH_RATIO || '0.02');
+    this.maxErrorRate = parseFloat(process.env.GROUP_HEALTH_MAX_ERROR_RATE || '0.3');
+    this.staleHours = parseInt(process.env.GROUP_HEALTH_STALE_HOURS || '48');
+    // 0 = never deactivate automatically
+    this.autoDeactivateBelow = parseFloat(process.env.GROUP_AUTO_DEACTIVATE_BELOW || '0');
+    // New groups are not judged before they had time to show their activity
+    this.graceDays = parseInt(process.env.GROUP_HEALTH_GRACE_DAYS || '14');
+  }
+
+  /**
+   * Score a group from its activity, relevance, usefulness, reliability and freshness
+   */
+  async computeHealth(group: FacebookGroup): Promise<GroupHealth> {
+    const metrics = await this.getMetrics(group);
+    const issues: GroupHealthIssue[] = [];
+
+    const activity = Math.min(1, metrics.postsPerDay / this.minPostsPerDay);
+    if (activity < 1) {
+      issues.push({ code: 'INACTIVE', label: `Peu actif : ${metrics.postsPerDay.toFixed(1)} posts/jour` });
+    }
+
+    const relevance = metrics.validRatio === null ? 1 : Math.min(1, metrics.validRatio / this.minValidRatio);
+    if (relevance < 1) {
+      issues.push({ code: 'OFF_TOPIC', label: `Hors sujet : ${Math.round((metrics.validRatio as number) * 100)} % des posts sont des annonces` });
+    }
+
+    const usefulness = metrics.matchRatio === null ? 1 : Math.min(1, metrics.matchRatio / this.minMatchRatio);
+    if (usefulness < 1) {
+      issues.push({ code: 'NO_MATCHES', label: `Peu utile : ${Math.round((metrics.matchRatio as number) * 100)} % des annonces trouvent preneur` });
+    }
+
+    const reliability = metrics.errorRate === null
+      ? 1
+      : Math.min(1, (1 - metrics.errorRate) / (1 - this.maxErrorRate));
+    if (reliability < 1) {
+      issues.push({ code: 'ERRORS', label: `Erreurs : ${Math.round((metrics.errorRate as number) * 100)} % des scans en échec` });
+    }
+
+    // An inactive group is not scraped on purpose
+    const freshness = !group.isActive || metrics.hoursSinceScrape <= this.staleHours
+      ? 1
+      : Math.max(0, 1 - (metrics.hoursSinceScrape - this.staleHours) / this.staleHours);
+    if (freshness < 1) {
+      issues.push({ code: 'STALE', label: `Pas scanné depuis ${Math.round(metrics.hoursSinceScrape / 24)} jours` });
+    }
+
+    const score = Math.round((activity * 0.3 + relevance * 0.3 + usefulness * 0.1 + reliability * 0.2 + freshness * 0.1) * 100) / 100;
+    const status: GroupHealthStatus = score >= 0.7 ? 'HEALTHY' : score >= 0.4 ? 'WARNING' : 'UNHEALTHY';
+
+    return { score, status, issues, metrics };
+  }
+
+  /**
+   * Recompute the health of every group and deactivate the worst ones when configured to
+   */
+  async checkAll(): Promise<{ checked: number; unhealthy: number; deactivated: number }> {
+    const groups = await prisma.facebookGroup.findMany();
+    let unhealthy = 0;
+    let deactivated = 0;
+
+    for (const group of groups) {
+      const health = await this.computeHealth(group);
+      if (health.status === 'UNHEALTHY') unhealthy++;
+
+      const deactivate = group.isActive
+        && this.autoDeactivateBelow > 0
+        && health.score < this.autoDeactivateBelow
+        && Date.now() - group.createdAt.getTime() >= this.graceDays * DAY_MS;
+
+      await prisma.facebookGroup.update({
+        where: { id: group.id },
+        data: {
+          healthScore: health.score,
+          healthStatus: health.status,
+          healthIssues: health.issues as unknown as Prisma.InputJsonArray,
+          healthMetrics: health.metrics as unknown as Prisma.InputJsonObject,
+          healthCheckedAt: new Date(),
+          ...(deactivate ? { isActive: false } : {}),
+        },
+      });
+
+      if (deactivate) {
+        deactivated++;
+        console.warn(`🩺 Group ${group.name} deactivated (health ${health.score}): ${health.issues.map(issue => issue.label).join(', ')}`);
+        await prisma.activityLog.create({
+          data: {
+            action: 'GROUP_AUTO_DEACTIVATED',
+            entityType: 'FacebookGroup',
+            entityId: group.id,
+            metadata: {
+              score: health.score,
+              threshold: this.autoDeactivateBelow,
+              issues: health.issues as unknown as Prisma.InputJsonArray,
+              metrics: health.metrics as unknown as Prisma.InputJsonObject,
+            },
+          },
+        });
+      }
+    }
+
+    return { checked: groups.length, unhealthy, deactivated };
+  }
+
+  private async getMetrics(group: FacebookGroup): Promise<GroupHealthMetrics> {
+    const since = new Date(Date.now() - 30 * DAY_MS);
+    const posts = { groupId: group.id, parentId: null, scrapedAt: { gte: since } };
+    // Offers are matched, not their parent post
+    const listings = { groupId: group.id, offerCount: null, isValid: true, scrapedAt: { gte: since } };
+    // Posts rejected by the pre-classifier are settled without ever being enriched
+    const settled = { ...posts, OR: [{ aiEnriched: true }, { preClassifierPassed: false }] };
+
+    const [recentPosts, settledPosts, validPosts, validListings, matchedListings, runs, failedRuns] = await Promise.all([
+      prisma.scrapedListing.count({ where: posts }),
+      prisma.scrapedListing.count({ where: settled }),
+      prisma.scrapedListing.count({ where: { ...settled, isValid: true } }),
+      prisma.scrapedListing.count({ where: listings }),
+      prisma.scrapedListing.count({ where: { ...listings, matches: { some: {} } } }),
+      prisma.scrapeRun.count({ where: { groupId: group.id, startedAt: { gte: new Date(Date.now() - 7 * DAY_MS) } } }),
+      prisma.scrapeRun.count({ where: { groupId: group.id, success: false, startedAt: { gte: new Date(Date.now() - 7 * DAY_MS) } } }),
+    ]);
+
+    return {
+      // The scheduler's estimate counts every post fetched, the listings only the relevant ones
+      postsPerDay: group.postsPerDay ?? recentPosts / 30,
+      validRatio: settledPosts >= 10 ? Math.round((validPosts / settledPosts) * 100) / 100 : null,
+      matchRatio: validListings >= 10 ? Math.round((matchedListings / validListings) * 100) / 100 : null,
+      errorRate: runs >= 3 ? Math.round((failedRuns / runs) * 100) / 100 : null,
+      hoursSinceScrape: Math.round((Date.now() - (group.lastScrapedAt ?? group.createdAt).getTime()) / (60 * 60 * 1000)),
+    };
+  }
+}
+
+export const groupHealthService = new GroupHealthService();
@@ -0,0 +1,170 @@
+import { FacebookGroup, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { apiQuotaService } from './api-quota.service';
+import { ScraperError } from '../utils/scraper-errors';
+
+export interface GroupSchedule {
+  postsPerDay: number;
+  validRatio: number;            // Share of the group's enriched posts that are real listings
+  scrapeIntervalMinutes: number;
+  nextScrapeAt: Date;
+}
+
+export interface FailurePlan {
+  data: Prisma.FacebookGroupUpdateInput;
+  circuitOpenUntil: Date | null;   // Set when this failure pauses the group
+}
+
+/**
+ * Plans when each group is scraped next: busy groups with many real listings and a high
+ * priority are scraped often, quiet or noisy ones rarely
+ */
+export class GroupSchedulerService {
+  private minIntervalMinutes: number;
+  private maxIntervalMinutes: number;
+  private postsPerScrape: number;
+  private initialLookbackDays: number;
+  private circuitThreshold: number;
+  private circuitCooldownMinutes: number;
+
+  constructor() {
+    this.minIntervalMinutes = parseInt(process.env.SCRAPE_MIN_INTERVAL_MINUTES || '5');
+    this.maxIntervalMinutes = parseInt(process.env.SCRAPE_MAX_INTERVAL_MINUTES || '720');
+    // New posts we aim to find per scrape, about one page of the API
+    this.postsPerScrape = parseFloat(process.env.SCRAPE_TARGET_POSTS || '3');
+    // Window covered by the first scrape of a group, see FacebookScraperService
+    this.initialLookbackDays = parseInt(process.env.SCRAPER_INITIAL_LOOKBACK_HOURS || '48') / 24;
+    // Consecutive failures before a group is paused, and the first pause (doubled on each new failure)
+    this.circuitThreshold = parseInt(process.env.SCRAPER_CIRCUIT_THRESHOLD || '3');
+    this.circuitCooldownMinutes = parseInt(process.env.SCRAPER_CIRCUIT_COOLDOWN_MINUTES || '60');
+  }
+
+  /**
+   * Groups whose planned scrape time has come, most important first.
+   * Low-priority groups wait while the API budget is at risk, paused groups until their circuit closes.
+   */
+  async getDueGroups(): Promise<FacebookGroup[]> {
+    const now = new Date();
+    const groups = await prisma.facebookGroup.findMany({
+      where: {
+        isActive: true,
+        AND: [
+          { OR: [{ nextScrapeAt: null }, { nextScrapeAt: { lte: now } }] },
+          { OR: [{ circuitOpenUntil: null }, { circuitOpenUntil: { lte: now } }] },
+        ],
+      },
+      orderBy: [{ priority: 'desc' }, { nextScrapeAt: { sort: 'asc', nulls: 'first' } }],
+    });
+
+    const due: FacebookGroup[] = [];
+    for (const group of groups) {
+      if (await apiQuotaService.canScrape(group.priority)) {
+        due.push(group);
+      }
+    }
+    if (due.length < groups.length) {
+      console.log(`⏸️ ${groups.length - due.length} low-priority groups throttled to save the API budget`);
+    }
+    return due;
+  }
+
+  /**
+   * Schedule after a scrape that fetched `fetchedPosts` new posts
+   */
+  async planNextScrape(group: FacebookGroup, fetchedPosts: number): Promise<GroupSchedule> {
+    const postsPerDay = this.updateVelocity(group, fetchedPosts);
+    const validRatio = await this.getValidRatio(group.id);
+
+    // Time for `postsPerScrape` posts to come in at the observed pace
+    let interval = postsPerDay > 0 ? (this.postsPerScrape / postsPerDay) * 24 * 60 : this.maxIntervalMinutes;
+    // From x1.5 for a group of chatter to x0.5 for a group of real listings
+    interval *= 1.5 - validRatio;
+    interval /= 1 + Math.max(group.priority, 0) * 0.25;
+
+    const scrapeIntervalMinutes = Math.round(Math.min(this.maxIntervalMinutes, Math.max(this.minIntervalMinutes, interval)));
+
+    return {
+      postsPerDay: Math.round(postsPerDay * 100) / 100,
+      validRatio: Math.round(validRatio * 100) / 100,
+      scrapeIntervalMinutes,
+      nextScrapeAt: new Date(Date.now() + scrapeIntervalMinutes * 60 * 1000),
+    };
+  }
+
+  /**
+   * Schedule after a failed scrape. Rate limiting concerns the API key, not the group: it is only
+   * retried after Retry-After. Other errors count towards the circuit breaker; once open, the group
+   * is paused and each failed trial after the pause doubles the next one.
+   */
+  planFailure(group: FacebookGroup, error: ScraperError): FailurePlan {
+    const errorData = {
+      lastErrorKind: error.kind,
+      lastError: error.message.substring(0, 500),
+      lastErrorAt: new Date(),
+    };
+
+    if (error.kind === 'RATE_LIMITED') {
+      const delay = Math.max(error.retryAfterMs ?? 0, this.minIntervalMinutes * 60 * 1000);
+      return { data: { ...errorData, nextScrapeAt: new Date(Date.now() + delay) }, circuitOpenUntil: null };
+    }
+
+    const failures = group.consecutiveFailures + 1;
+    if (failures < this.circuitThreshold) {
+      return {
+        data: { ...errorData, consecutiveFailures: failures, nextScrapeAt: new Date(Date.now() + this.minIntervalMinutes * 60 * 1000) },
+        circuitOpenUntil: null,
+      };
+    }
+
+    // A deleted or private group will not be back within the hour
+    const baseMinutes = error.kind === 'NOT_FOUND' ? this.circuitCooldownMinutes * 6 : this.circuitCooldownMinutes;
+    const cooldownMinutes = Math.min(baseMinutes * 2 ** (failures - this.circuitThreshold), 7 * 24 * 60);
+    const circuitOpenUntil = new Date(Date.now() + cooldownMinutes * 60 * 1000);
+
+    return {
+      data: { ...errorData, consecutiveFailures: failures, circuitOpenUntil, nextScrapeAt: circuitOpenUntil },
+      circuitOpenUntil,
+    };
+  }
+
+  /**
+   * Posts per day, smoothed over the previous scrapes
+   */
+  private updateVelocity(group: FacebookGroup, fetchedPosts: number): number {
+    if (!group.lastScrapedAt) {
+      return fetchedPosts / this.initialLookbackDays;
+    }
+
+    const elapsedDays = Math.max((Date.now() - group.lastScrapedAt.getTime()) / (24 * 60 * 60 * 1000), 1 / (24 * 60));
+    const observed = fetchedPosts / elapsedDays;
+    if (group.postsPerDay === null) {
+      return observed;
+    }
+
+    // Time-weighted average over about the last half day: a burst after a quiet period
+    // does not reset the schedule at once
+    const weight = Math.min(0.5, elapsedDays * 2);
+    return group.postsPerDay * (1 - weight) + observed * weight;
+  }
+
+  /**
+   * Share of the enriched posts of the last 30 days that were real listings
+   */
+  private async getValidRatio(groupId: string): Promise<number> {
+    const where = {
+      groupId,
+      aiEnriched: true,
+      parentId: null,
+      scrapedAt: { gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) },
+    };
+    const [enriched, valid] = await Promise.all([
+      prisma.scrapedListing.count({ where }),
+      prisma.scrapedListing.count({ where: { ...where, isValid: true } }),
+    ]);
+
+    // Unknown groups are given the benefit of the doubt
+    return enriched >= 5 ? valid / enriched : 0.5;
+  }
+}
+
+export const groupSchedulerService = new GroupSchedulerService();
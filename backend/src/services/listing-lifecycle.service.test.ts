@@ -0,0 +1,24 @@
+jest.mock('../config/database', () => ({ prisma: {} }));
+
+import { listingLifecycleService } from './listing-lifecycle.service';
+
+describe('ListingLifecycleService.isTakenText', () => {
+  it.each([
+    ['Déjà loué, merci à tous', true],
+    ['DEJA VENDUE', true],
+    ['N’est plus disponible', true],
+    ['Indisponible', true],
+    ['C\'est loué !', true],
+    ['La maison est vendue.', true],
+    ['Loué merci', true],
+    ['Affaire conclue', true],
+    ['Appartement disponible à Akanda', false],
+    ['Toujours disponible ?', false],
+    ['Je suis intéressé, est-ce encore disponible ?', false],
+    ['La villa est louée à 300 000 FCFA par mois', false],
+    ['Le studio est loué 150 000 le mois', false],
+    ['Terrain vendu par le propriétaire lui-même', false],
+  ])('"%s" → %s', (text, taken) => {
+    expect(listingLifecycleService.isTakenText(text)).toBe(taken);
+  });
+});
@@ -0,0 +1,196 @@
+import { ListingStatus, PropertyType, Prisma, ScrapedListing } from '@prisma/client';
+import { prisma } from '../config/database';
+import { apiQuotaService } from './api-quota.service';
+import { facebookScraperService } from './facebook-scraper.service';
+import { normalizeText } from '../utils/text';
+
+// Days after which a listing is assumed gone; rooms go fast, land and shops take months
+const EXPIRY_DAYS: Record<PropertyType, number> = {
+  ROOM: 21,
+  STUDIO: 21,
+  APARTMENT: 30,
+  HOUSE: 45,
+  VILLA: 45,
+  DUPLEX: 45,
+  LAND: 90,
+  COMMERCIAL: 60,
+  OFFICE: 60,
+};
+
+// Matched against accent-free lowercase text
+const TAKEN_PATTERN = /\bdeja (loue|louee|pris|prise|vendu|vendue|attribue|attribuee|occupe|occupee)\b|\b(n est )?plus disponible\b|\bindisponible\b|\b(c est|est) (loue|louee|vendu|vendue)\b(?! *((a|au|pour|par|en)\b|\d))|\b(loue|louee|vendu|vendue) merci\b|\baffaire conclue\b/;
+
+/**
+ * Lifecycle of a listing after it was scraped: rented or sold, expired by age, or deleted from Facebook.
+ * Only AVAILABLE listings are matched.
+ */
+export class ListingLifecycleService {
+  private defaultExpiryDays: number;
+  private checkBatchSize: number;
+
+  constructor() {
+    this.defaultExpiryDays = parseInt(process.env.LISTING_EXPIRY_DAYS || '30');
+    // Each check is one RapidAPI call
+    this.checkBatchSize = parseInt(process.env.LISTING_CHECK_BATCH || '20');
+  }
+
+  /**
+   * Whether a text announces that the property is no longer available
+   */
+  isTakenText(text: string): boolean {
+    return TAKEN_PATTERN.test(normalizeText(text).replace(/[’']/g, ' '));
+  }
+
+  /**
+   * Expire the available listings older than the lifetime of their property type.
+   * Sales stay up twice as long as rentals.
+   */
+  async expireStaleListings(): Promise<number> {
+    let expired = 0;
+    const types: Array<PropertyType | null> = [...(Object.keys(EXPIRY_DAYS) as PropertyType[]), null];
+
+    for (const propertyType of types) {
+      for (const isSale of [false, true]) {
+        const days = (propertyType ? EXPIRY_DAYS[propertyType] : this.defaultExpiryDays) * (isSale ? 2 : 1);
+        const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+        const result = await prisma.scrapedListing.updateMany({
+          where: {
+            status: 'AVAILABLE',
+            propertyType,
+            AND: [
+              // Listings without a transaction type are handled as rentals
+              isSale ? { transactionType: 'SALE' } : { OR: [{ transactionType: null }, { transactionType: { not: 'SALE' } }] },
+              { OR: [{ postedAt: { lt: cutoff } }, { postedAt: null, scrapedAt: { lt: cutoff } }] },
+            ],
+          },
+          data: {
+            status: 'EXPIRED',
+            statusReason: `Publiée il y a plus de ${days} jours`,
+            statusChangedAt: new Date(),
+          },
+        });
+        expired += result.count;
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Fetch again the posts checked the longest time ago and update their status
+   */
+  async checkAvailableListings(): Promise<{ checked: number; changed: number }> {
+    // New posts matter more than old ones when the API budget is short
+    if (!(await apiQuotaService.canSpendOptional())) {
+      return { checked: 0, changed: 0 };
+    }
+
+    const listings = await prisma.scrapedListing.findMany({
+      where: {
+        status: 'AVAILABLE',
+        isValid: true,
+        source: 'FACEBOOK',
+        // Offers share the post of their parent
+        parentId: null,
+      },
+      orderBy: { lastCheckedAt: { sort: 'asc', nulls: 'first' } },
+      take: this.checkBatchSize,
+    });
+
+    let changed = 0;
+    for (const listing of listings) {
+      try {
+        if (await this.checkListing(listing)) changed++;
+      } catch (error) {
+        console.error(`Error checking listing ${listing.postId}:`, error);
+      }
+    }
+
+    return { checked: listings.length, changed };
+  }
+
+  /**
+   * Look for a deletion, an edit or a comment of the author saying the property is taken.
+   * Returns whether the status changed.
+   */
+  async checkListing(listing: ScrapedListing): Promise<boolean> {
+    const details = await facebookScraperService.getPostDetails(listing.postId);
+    await prisma.scrapedListing.update({
+      where: { id: listing.id },
+      data: { lastCheckedAt: new Date() },
+    });
+
+    if (!details) {
+      await this.setStatus(listing.id, 'REMOVED', 'Publication supprimée de Facebook');
+      return true;
+    }
+
+    // "Déjà loué" under a multi-offer post does not say which offer is gone
+    if (listing.offerCount) {
+      return false;
+    }
+
+    const post = details.results || details.post || details;
+    const text: string = post.message || post.text || '';
+    if (text && text !== listing.originalText && this.isTakenText(text)) {
+      await this.setStatus(listing.id, 'TAKEN', 'Publication modifiée : plus disponible');
+      return true;
+    }
+
+    // Only the author can tell: "déjà loué ?" from someone else is a question
+    const comments: any[] = Array.isArray(post.comments) ? post.comments : post.comments?.data || [];
+    const takenComment = comments.find(comment =>
+      (!listing.authorId || comment.author?.id === listing.authorId)
+      && this.isTakenText(comment.message || comment.text || '')
+    );
+    if (takenComment) {
+      await this.setStatus(listing.id, 'TAKEN', `Commentaire de l'auteur : ${(takenComment.message || takenComment.text).substring(0, 100)}`);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Change the status of a listing and of the listings describing the same property:
+   * the offers of a multi-offer post, and the reposts when the property is taken
+   */
+  async setStatus(listingId: string, status: ListingStatus, reason?: string, options: { byAdmin?: boolean } = {}): Promise<ScrapedListing> {
+    const listing = await prisma.scrapedListing.update({
+      where: { id: listingId },
+      data: { status, statusReason: reason ?? null, statusChangedAt: new Date() },
+    });
+
+    const related: Prisma.ScrapedListingWhereInput[] = [{ parentId: listing.id }];
+    // A deleted post says nothing about its reposts, a rented property is rented everywhere
+    if (status === 'TAKEN') {
+      const clusterId = listing.canonicalId || listing.id;
+      related.push({ id: clusterId }, { canonicalId: clusterId });
+    }
+
+    await prisma.scrapedListing.updateMany({
+      where: {
+        id: { not: listing.id },
+        OR: related,
+        // Back to available only undoes this listing's own change
+        ...(status === 'AVAILABLE' ? { parentId: listing.id } : { status: 'AVAILABLE' }),
+      },
+      data: { status, statusReason: reason ?? null, statusChangedAt: new Date() },
+    });
+
+    await prisma.activityLog.create({
+      data: {
+        action: 'LISTING_STATUS_CHANGED',
+        entityType: 'ScrapedListing',
+        entityId: listing.id,
+        metadata: { status, reason: reason ?? null, byAdmin: options.byAdmin ?? false },
+      },
+    });
+
+    console.log(`📦 Listing ${listing.postId} is now ${status}${reason ? ` (${reason})` : ''}`);
+    return listing;
+  }
+}
+
+export const listingLifecycleService = new ListingLifecycleService();
@@ -2,6 +2,12 @@ import { ScrapedListing, User, PropertyCriteria, Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
 import { whapiService } from './whapi.service';
 import { aiClassifierService } from './ai-classifier.service';
+import { authorProfileService } from './author-profile.service';
+import { gazetteerService } from './gazetteer.service';
+import { riskScoringService } from './risk-scoring.service';
+import { PROPERTY_TYPE_EMOJIS, PROPERTY_TYPE_LABELS } from '../utils/property-types';
+import { toMonthlyPrice } from '../utils/rental-terms';
+import { describeAmenities } from '../utils/amenities';
 
 export interface MatchResult {
   userId: string;
@@ -12,11 +18,28 @@ export interface MatchResult {
 }
 
 export class MatchingService {
+  private defaultZoneRadiusKm: number;
+
+  constructor() {
+    this.defaultZoneRadiusKm = parseFloat(process.env.DEFAULT_ZONE_RADIUS_KM || '2');
+  }
+
   /**
    * Find matching users for a listing
    */
   async findMatchesForListing(listing: ScrapedListing): Promise<MatchResult[]> {
-    if (!listing.isValid || !listing.aiEnriched) {
+    // Multi-offer posts are matched through their child listings
+    if (!listing.isValid || !listing.aiEnriched || listing.offerCount) {
+      return [];
+    }
+
+    // Suspected scams wait for an admin decision
+    if (riskScoringService.isHidden(listing)) {
+      return [];
+    }
+
+    // Rented, sold, expired or deleted
+    if (listing.status !== 'AVAILABLE') {
       return [];
     }
 
@@ -26,9 +49,18 @@ export class MatchingService {
     });
 
     const matches: MatchResult[] = [];
+    const fromAgency = users.some(user => user.criteria?.excludeAgencies)
+      ? await authorProfileService.isAgencyListing(listing)
+      : false;
 
     for (const user of users) {
       if (!user.criteria) continue;
+      // "Sans frais d'agence"
+      if (user.criteria.excludeAgencies && fromAgency) continue;
+      if (!this.matchesTransactionType(listing, user.criteria)) continue;
+      if (!this.matchesPropertyType(listing, user.criteria)) continue;
+      if (!this.matchesMoveInBudget(listing, user.criteria)) continue;
+      if (!this.hasRequiredAmenities(listing, user.criteria)) continue;
 
       const score = this.calculateMatchScore(listing, user.criteria);
       
@@ -49,45 +81,88 @@ export class MatchingService {
     return matches.sort((a, b) => b.score - a.score);
   }
 
+  /**
+   * Hard filter: a rental never matches a buyer and vice versa.
+   * Listings or criteria without a known transaction type are kept.
+   */
+  private matchesTransactionType(listing: ScrapedListing, criteria: PropertyCriteria): boolean {
+    if (!listing.transactionType || !criteria.transactionType) {
+      return true;
+    }
+    return listing.transactionType === criteria.transactionType;
+  }
+
+  /**
+   * Hard filter: a terrain is never sent to someone looking for a studio.
+   * An empty type list means any type is accepted.
+   */
+  private matchesPropertyType(listing: ScrapedListing, criteria: PropertyCriteria): boolean {
+    if (!listing.propertyType || criteria.propertyTypes.length === 0) {
+      return true;
+    }
+    return criteria.propertyTypes.includes(listing.propertyType);
+  }
+
+  /**
+   * Hard filter: the caution, avance and frais d'agence must fit the upfront budget.
+   * Listings whose move-in cost is unknown are kept.
+   */
+  private matchesMoveInBudget(listing: ScrapedListing, criteria: PropertyCriteria): boolean {
+    if (!listing.moveInCost || !criteria.maxMoveInCost) {
+      return true;
+    }
+    return listing.moveInCost <= criteria.maxMoveInCost;
+  }
+
+  /**
+   * Hard filter: every must-have amenity has to be mentioned in the listing
+   */
+  private hasRequiredAmenities(listing: ScrapedListing, criteria: PropertyCriteria): boolean {
+    return criteria.requiredAmenities.every(amenity => listing.amenities.includes(amenity));
+  }
+
   /**
    * Calculate comprehensive match score
    */
   private calculateMatchScore(
     listing: ScrapedListing,
     criteria: PropertyCriteria
-  ): { total: number; price: number; location: number; surface: number; rooms: number; type: number } {
-    let score = { price: 0, location: 0, surface: 0, rooms: 0, type: 0 };
+  ): { total: number; price: number; location: number; surface: number; rooms: number; type: number; amenities: number; distanceKm: number | null } {
+    let score = { price: 0, location: 0, surface: 0, rooms: 0, type: 0, amenities: 0 };
+    let distanceKm: number | null = null;
 
     // Type matching (10%)
-    if (listing.propertyType && 
-        (criteria.propertyType === 'BOTH' || criteria.propertyType === listing.propertyType)) {
+    if (listing.propertyType &&
+        (criteria.propertyTypes.length === 0 || criteria.propertyTypes.includes(listing.propertyType))) {
       score.type = 10;
     }
 
-    // Price matching (30%)
-    if (listing.price && criteria.minPrice && criteria.maxPrice) {
-      if (listing.price >= criteria.minPrice && listing.price <= criteria.maxPrice) {
+    // Price matching (30%), nightly or weekly prices compared on a monthly basis
+    const price = listing.price ? toMonthlyPrice(listing.price, listing.pricePeriod) : null;
+    if (price && criteria.minPrice && criteria.maxPrice) {
+      if (price >= criteria.minPrice && price <= criteria.maxPrice) {
         score.price = 30;
       } else {
         // Partial score if close to range
         const diff = Math.min(
-          Math.abs(listing.price - criteria.minPrice),
-          Math.abs(listing.price - criteria.maxPrice)
+          Math.abs(price - criteria.minPrice),
+          Math.abs(price - criteria.maxPrice)
         );
-        const percentage = diff / listing.price;
+        const percentage = diff / price;
         score.price = Math.max(0, 30 - (percentage * 100));
       }
     } else if (!criteria.minPrice && !criteria.maxPrice) {
       score.price = 30; // No preference = full points
     }
 
-    // Location matching (25%)
+    // Location matching (25%): full points inside a zone, decreasing with the distance around it
     if (listing.location && criteria.locations.length > 0) {
-      const locationMatch = criteria.locations.some(loc =>
-        listing.location!.toLowerCase().includes(loc.toLowerCase())
-      );
-      if (locationMatch) {
-        score.location = 25;
+      for (const zone of criteria.locations) {
+        const zoneScore = this.scoreZone(listing.location, zone, this.getZoneRadius(criteria, zone));
+        if (zoneScore.points > score.location) {
+          score.location = zoneScore.points;
+          distanceKm = zoneScore.distanceKm;
+        }
       }
     }
 
@@ -109,8 +184,42 @@ export class MatchingService {
       score.rooms = 15;
     }
 
-    const total = score.price + score.location + score.surface + score.rooms + score.type;
-    return { ...score, total };
+    // Nice-to-have amenities (bonus up to 10, total capped at 100)
+    if (criteria.preferredAmenities.length > 0) {
+      const found = criteria.preferredAmenities.filter(amenity => listing.amenities.includes(amenity));
+      score.amenities = 10 * (found.length / criteria.preferredAmenities.length);
+    }
+
+    const total = Math.min(100, score.price + score.location + score.surface + score.rooms + score.type + score.amenities);
+    return { ...score, total, distanceKm };
+  }
+
+  /**
+   * Location points for one zone: 25 inside it, 15 at the edge of its radius,
+   * nothing beyond twice the radius
+   */
+  private scoreZone(location: string, zone: string, radiusKm: number): { points: number; distanceKm: number | null } {
+    if (gazetteerService.matchesZone(location, zone)) {
+      return { points: 25, distanceKm: null };
+    }
+
+    const distanceKm = gazetteerService.distanceKm(location, zone);
+    if (distanceKm === null || distanceKm > radiusKm * 2) {
+      return { points: 0, distanceKm: null };
+    }
+
+    const points = distanceKm <= radiusKm
+      ? 25 - 10 * (distanceKm / radiusKm)
+      : 15 * (2 - distanceKm / radiusKm);
+    return { points, distanceKm };
+  }
+
+  /**
+   * Radius chosen by the user for a zone, or the default one
+   */
+  private getZoneRadius(criteria: PropertyCriteria, zone: string): number {
+    const radii = (criteria.zoneRadii || {}) as Record<string, number>;
+    return radii[zone] || this.defaultZoneRadiusKm;
   }
 
   /**
@@ -129,7 +238,13 @@ export class MatchingService {
       reasons.push('💰 Prix proche de votre budget');
     }
 
-    if (score.location >= 20) {
+    if (listing.moveInCost && criteria.maxMoveInCost) {
+      reasons.push(`💳 Entrée : ${listing.moveInCost.toLocaleString()} FCFA, dans votre budget`);
+    }
+
+    if (score.distanceKm !== null && score.location > 0) {
+      reasons.push(`📍 à ~${Math.max(1, Math.round(score.distanceKm))} km de votre zone`);
+    } else if (score.location >= 20) {
       reasons.push('📍 Localisation recherchée');
     }
 
@@ -141,8 +256,14 @@ export class MatchingService {
       reasons.push(`🚪 ${listing.rooms} pièces`);
     }
 
-    if (score.type >= 8) {
-      reasons.push(listing.propertyType === 'HOUSE' ? '🏠 Maison' : '🏢 Appartement');
+    const wantedAmenities = [...criteria.requiredAmenities, ...criteria.preferredAmenities]
+      .filter(amenity => listing.amenities.includes(amenity));
+    if (wantedAmenities.length > 0) {
+      reasons.push(`🔧 ${describeAmenities(wantedAmenities)}`);
+    }
+
+    if (score.type >= 8 && listing.propertyType) {
+      reasons.push(`${PROPERTY_TYPE_EMOJIS[listing.propertyType]} ${PROPERTY_TYPE_LABELS[listing.propertyType]}`);
     }
 
     return reasons;
@@ -157,11 +278,12 @@ export class MatchingService {
 
     for (const match of matches) {
       try {
-        // Check if match already exists
+        // One alert per property: the user may already have matched another listing of the cluster
+        const clusterId = listing.canonicalId || listing.id;
         const existingMatch = await prisma.match.findFirst({
           where: {
             userId: match.userId,
-            listingId: match.listingId,
+            listing: { OR: [{ id: clusterId }, { canonicalId: clusterId }] },
           },
         });
 
@@ -336,6 +458,7 @@ export class MatchingService {
       where: {
         isValid: true,
         aiEnriched: true,
+        status: 'AVAILABLE',
       },
       take: 100,
     });
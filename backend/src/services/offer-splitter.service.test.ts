@@ -0,0 +1,58 @@
+import { offerSplitterService } from './offer-splitter.service';
+
+describe('OfferSplitterService.split', () => {
+  it.each([
+    {
+      name: 'numbered lines',
+      text: [
+        'AGENCE IMMO PLUS - Biens disponibles :',
+        '1) Studio meublé à Louis, 150 000 FCFA',
+        '2) Appartement 2 chambres salon à Akanda, 250 000 FCFA',
+        '3) Villa 4 chambres à Owendo, 600 000 FCFA',
+        'Contact : 077 12 34 56',
+      ].join('\n'),
+      offers: ['Studio meublé à Louis', 'Appartement 2 chambres salon à Akanda', 'Villa 4 chambres à Owendo'],
+    },
+    {
+      name: 'emoji markers',
+      text: [
+        'Nouveautés de la semaine',
+        '🏠 Studio à Nzeng-Ayong, 80 000 FCFA',
+        '🏠 Chambre salon à Charbonnages, 120 000 FCFA',
+        '',
+        'Appelez le 066 00 11 22',
+      ].join('\n'),
+      offers: ['Studio à Nzeng-Ayong', 'Chambre salon à Charbonnages'],
+    },
+    {
+      name: 'numbered items inside one line',
+      text: 'DISPONIBLES: 1) studio à Nzeng-Ayong 80 000 2) 2 chambres salon à Charbonnages 180 000. Appelez le 066 00 11 22',
+      offers: ['studio à Nzeng-Ayong', '2 chambres salon à Charbonnages'],
+    },
+  ])('splits $name into one text per offer, each with the contact', ({ text, offers }) => {
+    const split = offerSplitterService.split(text);
+
+    expect(split).toHaveLength(offers.length);
+    split.forEach((offer, index) => {
+      expect(offer).toContain(offers[index]);
+      expect(offer.replace(/\s/g, '')).toMatch(/0(77123456|66001122)/);
+    });
+  });
+
+  it.each([
+    {
+      name: 'features of a single property listed as bullets',
+      text: 'Villa à louer à Akanda 800 000 FCFA\n✅ 4 chambres\n✅ 3 douches\n✅ grande cour\nContact 077 12 34 56',
+    },
+    {
+      name: 'a single property',
+      text: 'Studio disponible à Louis, 100 000 par mois. 074 00 00 00',
+    },
+    {
+      name: 'numbered steps without properties',
+      text: 'Pour visiter :\n1) appelez le 077 12 34 56\n2) prenez rendez-vous\n3) venez avec votre pièce d\'identité',
+    },
+  ])('keeps $name whole', ({ text }) => {
+    expect(offerSplitterService.split(text)).toEqual([]);
+  });
+});
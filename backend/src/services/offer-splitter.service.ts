@@ -0,0 +1,119 @@
+import { ruleExtractorService } from './rule-extractor.service';
+import { extractGabonPhones } from '../utils/phone';
+
+// Line starting an item: "1)", "2.", "3-", bullets and emoji markers ("🏠", "✅", "👉")
+const LINE_ITEM_MARKER = /^\s*(?:\d{1,2}\s*[).\-–:]\s+|(?:[•▪►*\-–]|\p{Extended_Pictographic}\uFE0F?)+\s*)/u;
+
+// Numbered item inside a single line: "DISPONIBLES: 1) studio ... 2) 2 chambres ..."
+const INLINE_ITEM_MARKER = /(?:^|[\s;,.:])(\d{1,2})\s*[)–-]\s+/g;
+
+/**
+ * Detects agency posts listing several properties and cuts them into one text per offer.
+ * Each offer keeps the header and footer of the post (agency name, contact...).
+ */
+export class OfferSplitterService {
+  /**
+   * One text per offer, or an empty list when the post describes a single property
+   */
+  split(text: string): string[] {
+    const layout = this.splitLines(text) || this.splitInline(text);
+    if (!layout) {
+      return [];
+    }
+
+    const { header, items, footer } = layout;
+    const qualified = items.filter(item => this.isOffer(item));
+    if (qualified.length < 2) {
+      return [];
+    }
+
+    const phones = extractGabonPhones(text).map(phone => phone.phone);
+
+    // Features listed as bullets are not offers: only keep items naming a property
+    return items
+      .filter(item => this.namesProperty(item))
+      .map(item => {
+        const parts = [header, item, footer].filter(part => part.trim().length > 0);
+        // The contact is usually given once for all the offers
+        if (phones.length > 0 && extractGabonPhones(parts.join('\n')).length === 0) {
+          parts.push(`Contact : ${phones.join(' / ')}`);
+        }
+        return parts.join('\n').trim();
+      });
+  }
+
+  /**
+   * Items on their own lines; an item continues until the next marker or a blank line
+   */
+  private splitLines(text: string): { header: string; items: string[]; footer: string } | null {
+    const lines = text.split('\n');
+    const starts = lines
+      .map((line, index) => (LINE_ITEM_MARKER.test(line) ? index : -1))
+      .filter(index => index >= 0);
+    if (starts.length < 2) {
+      return null;
+    }
+
+    const items: string[] = [];
+    let end = starts[0];
+    for (let i = 0; i < starts.length; i++) {
+      const limit = i + 1 < starts.length ? starts[i + 1] : lines.length;
+      end = starts[i] + 1;
+      while (end < limit && lines[end].trim().length > 0) end++;
+      items.push(lines.slice(starts[i], end).join('\n').trim());
+    }
+
+    return {
+      header: lines.slice(0, starts[0]).join('\n').trim(),
+      items,
+      footer: lines.slice(end).join('\n').trim(),
+    };
+  }
+
+  /**
+   * Items numbered 1, 2, 3... inside running text; the last item runs to the end
+   */
+  private splitInline(text: string): { header: string; items: string[]; footer: string } | null {
+    const markers: Array<{ index: number; contentStart: number }> = [];
+    const pattern = new RegExp(INLINE_ITEM_MARKER.source, 'g');
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+      // Only an uninterrupted 1, 2, 3... sequence counts
+      if (parseInt(match[1]) === markers.length + 1) {
+        markers.push({ index: match.index, contentStart: match.index + match[0].length });
+      }
+    }
+    if (markers.length < 2) {
+      return null;
+    }
+
+    const items = markers.map((marker, i) =>
+      text.substring(marker.contentStart, i + 1 < markers.length ? markers[i + 1].index : text.length).trim()
+    );
+
+    return {
+      header: text.substring(0, markers[0].index).trim(),
+      items,
+      footer: '',
+    };
+  }
+
+  /**
+   * A property with its own price or place, not a feature of the property described in the header
+   */
+  private isOffer(item: string): boolean {
+    const data = ruleExtractorService.extract(item);
+    return this.namesProperty(item) && Boolean(data.price || data.location);
+  }
+
+  /**
+   * "studio", "villa", or a room count such as "2 chambres salon"
+   */
+  private namesProperty(text: string): boolean {
+    const data = ruleExtractorService.extract(text);
+    return Boolean(data.propertyType || data.rooms);
+  }
+}
+
+export const offerSplitterService = new OfferSplitterService();
@@ -0,0 +1,31 @@
+jest.mock('../config/database', () => ({ prisma: {} }));
+
+import { preClassifierService } from './pre-classifier.service';
+
+// Default PRE_CLASSIFIER_THRESHOLD
+const THRESHOLD = 0.5;
+
+describe('PreClassifierService.keywordScore', () => {
+  it.each([
+    'Chambre à louer 50 000',
+    'Studio disponible 75000 par mois',
+    'Studio disponible 75000/mois',
+    'Appartement 2 chambres salon à louer à Akanda, 250 000 FCFA, caution 2 mois',
+    'Villa à louer à Owendo, recherche locataire sérieux, 500 mille',
+    'Terrain à vendre à Ntoum 20 millions',
+    'Je cherche un locataire pour mon studio meublé, 150 mille le mois',
+  ])('keeps the listing "%s"', (text) => {
+    expect(preClassifierService.keywordScore(text)).toBeGreaterThanOrEqual(THRESHOLD);
+  });
+
+  it.each([
+    'Je cherche un appartement à louer à Akanda',
+    'Recherche une chambre à louer vers Nzeng-Ayong',
+    'Qui a une maison à louer à Owendo ?',
+    'Vends Toyota Corolla 2010, kilométrage 120000',
+    'Recrutement : poste à pourvoir, envoyez votre CV',
+    'Amen, Dieu bénisse',
+  ])('rejects "%s"', (text) => {
+    expect(preClassifierService.keywordScore(text)).toBeLessThan(THRESHOLD);
+  });
+});
@@ -0,0 +1,231 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { gazetteerService } from './gazetteer.service';
+import { extractFcfaAmounts } from '../utils/price';
+import { normalizeText } from '../utils/text';
+
+export interface PreClassification {
+  score: number;              // 0-1, likelihood that the post is a real estate listing
+  passed: boolean;
+  keywordScore: number;
+  modelScore: number | null;  // null until enough admin labels exist
+}
+
+/**
+ * Multinomial naive Bayes learned from admin-validated listings, stored as JSON in SystemConfig.
+ * Token counts are stored as [relevant, irrelevant].
+ */
+interface PreClassifierModel {
+  trainedAt: string;
+  samples: { relevant: number; irrelevant: number };
+  totals: [number, number];
+  tokens: Record<string, [number, number]>;
+}
+
+const MODEL_CONFIG_KEY = 'pre_classifier_model';
+const MAX_VOCABULARY = 3000;
+
+// Weighted signals, matched against accent-free lowercase text
+const KEYWORD_WEIGHTS: Array<[RegExp, number]> = [
+  [/\b(a louer|location|loyer|bail)\b/, 2],
+  [/\b(a vendre|vente|vends)\b/, 1],
+  [/\b(appartements?|apparts?|maisons?|villas?|studios?|duplex|terrains?|parcelles?|chambres?|magasins?|bureaux?)\b/, 2],
+  [/\b(disponibles?|libres? (de suite|immediatement))\b/, 1],
+  // "75000 par mois", "75000/mois" (the slash is dropped by normalization)
+  [/\b(par mois|le mois|mensuel\w*)\b|\d\s*mois\b/, 1.5],
+  [/\b\d+\s*(chambres?|pieces?)\b|\b[tf][1-6]\b/, 1],
+  [/\b(meuble|non meuble|cuisine|douche|salon|parking|forage)\b/, 1],
+  [/\b(caution|avance|frais d agence|commission|mois de caution)\b/, 1.5],
+  [/\b\d+\s*(m2|metres carres)\b/, 1],
+  [/\b(emploi|recrute|recrutement|cv|stage|poste a pourvoir|salaire)\b/, -3],
+  [/\b(voiture|vehicule|toyota|hyundai|moto|pneus?|kilometrage)\b/, -3],
+  [/\b(iphone|samsung|ordinateur|telephone portable|habits|chaussures|perruques?)\b/, -2],
+  // Someone looking for a place, unless they are looking for a tenant or a buyer
+  [/\b(je|nous|on) (re)?cherch\w*\b(?! (un |une |des )?(locataire|acquereur|preneur))|\brecherche (un|une|des)\b(?! (locataire|acquereur|preneur))|\b(besoin d un|qui a|qui aurait)\b/, -3],
+  [/\b(amen|priere|dieu benisse|condoleances)\b/, -1],
+];
+
+/**
+ * Cheap local classifier deciding which scraped posts are worth an LLM call
+ */
+export class PreClassifierService {
+  private threshold: number;
+  private minTrainingSamples: number;
+  private model: PreClassifierModel | null = null;
+  private modelLoadedAt = 0;
+
+  constructor() {
+    this.threshold = parseFloat(process.env.PRE_CLASSIFIER_THRESHOLD || '0.5');
+    this.minTrainingSamples = parseInt(process.env.PRE_CLASSIFIER_MIN_SAMPLES || '30');
+  }
+
+  /**
+   * Score a post: keyword signals, blended with the trained model when available
+   */
+  async classify(text: string): Promise<PreClassification> {
+    const keywordScore = this.keywordScore(text);
+    const model = await this.loadModel();
+    const modelScore = model ? this.modelScore(model, text) : null;
+
+    const score = modelScore === null ? keywordScore : 0.4 * keywordScore + 0.6 * modelScore;
+    return {
+      score: Math.round(score * 1000) / 1000,
+      passed: score >= this.threshold,
+      keywordScore,
+      modelScore,
+    };
+  }
+
+  /**
+   * Keyword signals squashed into 0-1
+   */
+  keywordScore(text: string): number {
+    const normalized = normalizeText(text).replace(/[^a-z0-9\s²]/g, ' ');
+    let total = 0;
+
+    for (const [pattern, weight] of KEYWORD_WEIGHTS) {
+      if (pattern.test(normalized)) total += weight;
+    }
+    if (extractFcfaAmounts(text, 10000).some(amount => amount.explicit)) total += 1;
+    if (gazetteerService.resolve(text).length > 0) total += 1;
+
+    return Math.round(1 / (1 + Math.exp(-(total - 2.5))) * 1000) / 1000;
+  }
+
+  /**
+   * Retrain the model from listings whose validity was set by an admin
+   */
+  async train(): Promise<PreClassifierModel | null> {
+    const labelled = await prisma.scrapedListing.findMany({
+      where: { validatedByAdmin: true },
+      select: { originalText: true, isValid: true },
+    });
+
+    const relevant = labelled.filter(l => l.isValid).length;
+    const irrelevant = labelled.length - relevant;
+    if (labelled.length < this.minTrainingSamples || relevant === 0 || irrelevant === 0) {
+      console.log(`⚠️ Not enough labelled listings to train the pre-classifier (${relevant} valid, ${irrelevant} invalid)`);
+      return null;
+    }
+
+    const counts = new Map<string, [number, number]>();
+    for (const listing of labelled) {
+      const column = listing.isValid ? 0 : 1;
+      for (const token of this.tokenize(listing.originalText)) {
+        const entry = counts.get(token) || [0, 0];
+        entry[column]++;
+        counts.set(token, entry);
+      }
+    }
+
+    // Keep the most frequent tokens so the model stays small enough for SystemConfig
+    const vocabulary = Array.from(counts.entries())
+      .sort((a, b) => (b[1][0] + b[1][1]) - (a[1][0] + a[1][1]))
+      .slice(0, MAX_VOCABULARY);
+
+    const model: PreClassifierModel = {
+      trainedAt: new Date().toISOString(),
+      samples: { relevant, irrelevant },
+      totals: vocabulary.reduce<[number, number]>((acc, [, [r, i]]) => [acc[0] + r, acc[1] + i], [0, 0]),
+      tokens: Object.fromEntries(vocabulary),
+    };
+
+    await prisma.systemConfig.upsert({
+      where: { key: MODEL_CONFIG_KEY },
+      create: { key: MODEL_CONFIG_KEY, value: model as unknown as Prisma.InputJsonObject, description: 'Pre-classifier trained on admin-validated listings' },
+      update: { value: model as unknown as Prisma.InputJsonObject },
+    });
+
+    this.model = model;
+    this.modelLoadedAt = Date.now();
+    console.log(`🧠 Pre-classifier trained on ${labelled.length} listings (${vocabulary.length} tokens)`);
+    return model;
+  }
+
+  /**
+   * Decisions taken so far and current model state, for the dashboard
+   */
+  async getStats(): Promise<{
+    passed: number;
+    rejected: number;
+    unscored: number;
+    avgScore: number;
+    threshold: number;
+    model: { trainedAt: string; samples: number } | null;
+  }> {
+    const [passed, rejected, unscored, average, model] = await Promise.all([
+      prisma.scrapedListing.count({ where: { preClassifierPassed: true } }),
+      prisma.scrapedListing.count({ where: { preClassifierPassed: false } }),
+      prisma.scrapedListing.count({ where: { preClassifierPassed: null } }),
+      prisma.scrapedListing.aggregate({ _avg: { preClassifierScore: true } }),
+      this.loadModel(),
+    ]);
+
+    return {
+      passed,
+      rejected,
+      unscored,
+      avgScore: average._avg.preClassifierScore || 0,
+      threshold: this.threshold,
+      model: model
+        ? { trainedAt: model.trainedAt, samples: model.samples.relevant + model.samples.irrelevant }
+        : null,
+    };
+  }
+
+  private modelScore(model: PreClassifierModel, text: string): number {
+    const vocabularySize = Object.keys(model.tokens).length;
+    const totalSamples = model.samples.relevant + model.samples.irrelevant;
+    let logRelevant = Math.log(model.samples.relevant / totalSamples);
+    let logIrrelevant = Math.log(model.samples.irrelevant / totalSamples);
+
+    for (const token of this.tokenize(text)) {
+      const counts = model.tokens[token];
+      if (!counts) continue;
+      logRelevant += Math.log((counts[0] + 1) / (model.totals[0] + vocabularySize));
+      logIrrelevant += Math.log((counts[1] + 1) / (model.totals[1] + vocabularySize));
+    }
+
+    return Math.round(1 / (1 + Math.exp(logIrrelevant - logRelevant)) * 1000) / 1000;
+  }
+
+  private tokenize(text: string): string[] {
+    return normalizeText(text)
+      .replace(/\d+/g, ' 0 ')
+      .split(/[^a-z0]+/)
+      .filter(token => token.length >= 3 || token === '0');
+  }
+
+  /**
+   * Model from SystemConfig, refreshed every 10 minutes so every instance picks up retraining
+   */
+  private async loadModel(): Promise<PreClassifierModel | null> {
+    if (Date.now() - this.modelLoadedAt < 10 * 60 * 1000) {
+      return this.model;
+    }
+
+    const config = await prisma.systemConfig.findUnique({ where: { key: MODEL_CONFIG_KEY } });
+    this.model = config && this.isModel(config.value) ? config.value : null;
+    this.modelLoadedAt = Date.now();
+    return this.model;
+  }
+
+  /**
+   * Check the shape of a stored model, a malformed one is ignored rather than crashing scoring
+   */
+  private isModel(value: Prisma.JsonValue): value is Prisma.JsonObject & PreClassifierModel {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+    const { trainedAt, samples, totals, tokens } = value as Record<string, unknown>;
+    const isPair = (pair: unknown) => Array.isArray(pair) && pair.length === 2 && pair.every(n => typeof n === 'number');
+
+    return typeof trainedAt === 'string'
+      && typeof samples === 'object' && samples !== null
+      && typeof (samples as Record<string, unknown>).relevant === 'number'
+      && typeof (samples as Record<string, unknown>).irrelevant === 'number'
+      && isPair(totals)
+      && typeof tokens === 'object' && tokens !== null
+      && Object.values(tokens).every(isPair);
+  }
+}
+
+export const preClassifierService = new PreClassifierService();
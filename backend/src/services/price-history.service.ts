@@ -0,0 +1,155 @@
+import { ScrapedListing } from '@prisma/client';
+import { prisma } from '../config/database';
+import { whapiService } from './whapi.service';
+import { PROPERTY_TYPE_EMOJIS, PROPERTY_TYPE_LABELS } from '../utils/property-types';
+import { PRICE_PERIOD_SUFFIXES } from '../utils/rental-terms';
+
+/**
+ * Price history of a property across its reposts, with alerts when the price drops
+ */
+export class PriceHistoryService {
+  private minDropPercent: number;
+  private maxDropPercent: number;
+
+  constructor() {
+    this.minDropPercent = parseFloat(process.env.PRICE_DROP_MIN_PERCENT || '5');
+    // Larger drops are more likely a misread price (caution, per night...) than a price cut
+    this.maxDropPercent = parseFloat(process.env.PRICE_DROP_MAX_PERCENT || '50');
+  }
+
+  /**
+   * Record the price seen in a listing in the history of its cluster.
+   * Returns the number of users alerted of a price drop.
+   */
+  async recordObservation(listing: ScrapedListing, options: { notify?: boolean } = {}): Promise<number> {
+    if (!listing.price) {
+      return 0;
+    }
+
+    // Re-enriching a listing must not record its price twice
+    const recorded = await prisma.listingPriceHistory.findUnique({ where: { listingId: listing.id } });
+    if (recorded) {
+      return 0;
+    }
+
+    const canonicalId = listing.canonicalId || listing.id;
+    const previousPrice = listing.canonicalId ? await this.getCurrentPrice(canonicalId) : null;
+
+    await prisma.listingPriceHistory.create({
+      data: {
+        canonicalId,
+        listingId: listing.id,
+        price: listing.price,
+        previousPrice,
+        observedAt: listing.postedAt || listing.scrapedAt,
+      },
+    });
+
+    if (!previousPrice || listing.price >= previousPrice || options.notify === false) {
+      return 0;
+    }
+
+    const dropPercent = ((previousPrice - listing.price) / previousPrice) * 100;
+    if (dropPercent < this.minDropPercent || dropPercent > this.maxDropPercent) {
+      return 0;
+    }
+
+    console.log(`📉 Price drop on ${listing.postId}: ${previousPrice} → ${listing.price} FCFA`);
+    return this.notifyPriceDrop(listing, canonicalId, previousPrice);
+  }
+
+  /**
+   * Last known price of a cluster; clusters older than the history start from the canonical listing
+   */
+  private async getCurrentPrice(canonicalId: string): Promise<number | null> {
+    const last = await prisma.listingPriceHistory.findFirst({
+      where: { canonicalId },
+      orderBy: { observedAt: 'desc' },
+    });
+    if (last) {
+      return last.price;
+    }
+
+    const canonical = await prisma.scrapedListing.findUnique({
+      where: { id: canonicalId },
+      select: { price: true },
+    });
+    return canonical?.price ?? null;
+  }
+
+  /**
+   * Alert the users who were sent, viewed or liked any listing of the cluster
+   */
+  private async notifyPriceDrop(listing: ScrapedListing, canonicalId: string, previousPrice: number): Promise<number> {
+    const matches = await prisma.match.findMany({
+      where: {
+        listing: { OR: [{ id: canonicalId }, { canonicalId }] },
+        OR: [{ isNotified: true }, { isViewed: true }, { isInterested: true }],
+        user: { isActive: true },
+      },
+      include: { user: true },
+    });
+
+    const users = new Map(matches.map(match => [match.userId, match.user]));
+    const message = this.formatPriceDropMessage(listing, previousPrice);
+    let notified = 0;
+
+    for (const user of users.values()) {
+      try {
+        const alreadySent = await prisma.notification.findFirst({
+          where: { userId: user.id, type: 'PRICE_DROP', relatedEntityId: listing.id },
+        });
+        if (alreadySent) continue;
+
+        await whapiService.sendText(user.whatsappNumber, message);
+        await prisma.notification.create({
+          data: {
+            userId: user.id,
+            type: 'PRICE_DROP',
+            title: 'Baisse de prix !',
+            message: message.substring(0, 200),
+            relatedEntityId: listing.id,
+            relatedEntityType: 'ScrapedListing',
+          },
+        });
+        notified++;
+      } catch (error) {
+        console.error(`Error sending price drop to ${user.whatsappNumber}:`, error);
+      }
+    }
+
+    return notified;
+  }
+
+  /**
+   * WhatsApp message announcing the new price next to the crossed-out old one
+   */
+  private formatPriceDropMessage(listing: ScrapedListing, previousPrice: number): string {
+    const price = listing.price || 0;
+    const dropPercent = Math.round(((previousPrice - price) / previousPrice) * 100);
+    const period = listing.pricePeriod ? PRICE_PERIOD_SUFFIXES[listing.pricePeriod] : '';
+    const type = listing.propertyType
+      ? `${PROPERTY_TYPE_EMOJIS[listing.propertyType]} ${PROPERTY_TYPE_LABELS[listing.propertyType]}`
+      : '🏠 Bien';
+
+    const lines = [
+      '📉 *Baisse de prix sur une annonce que vous avez reçue !*',
+      '',
+      `${type}${listing.location ? ` • ${listing.location}` : ''}`,
+      `💰 ~${previousPrice.toLocaleString()} FCFA~ → *${price.toLocaleString()} FCFA*${period} (-${dropPercent}%)`,
+    ];
+    if (listing.moveInCost) {
+      lines.push(`💳 Entrée : ${listing.moveInCost.toLocaleString()} FCFA`);
+    }
+    if (listing.contact) {
+      lines.push(`📞 ${listing.contact}`);
+    }
+    if (listing.postUrl) {
+      lines.push('', `🔗 ${listing.postUrl}`);
+    }
+
+    return lines.join('\n');
+  }
+}
+
+export const priceHistoryService = new PriceHistoryService();
@@ -0,0 +1,17 @@
+jest.mock('../config/database', () => ({ prisma: {} }));
+
+import { riskScoringService } from './risk-scoring.service';
+
+describe('RiskScoringService.assessText', () => {
+  it.each([
+    ['Il faut payer les frais de visite de 10 000 avant de venir', ['upfront_payment']],
+    ['Réservez en payant 50 000 par Airtel Money', ['upfront_payment', 'money_transfer']],
+    ['Je suis actuellement en France, les clés vous seront envoyées par DHL', ['absent_owner']],
+    ['Le propriétaire est à l’étranger, envoyer l argent par Western Union', ['money_transfer', 'absent_owner']],
+    ['Location sans visite, le premier à payer prend la maison', ['no_visit', 'pressure']],
+    ['Appartement 2 chambres à louer à Akanda, 250 000 FCFA, visite sur rendez-vous', []],
+    ['Studio meublé, paiement par Moov Money accepté après la visite', ['money_transfer']],
+  ])('"%s" → %j', (text, codes) => {
+    expect(riskScoringService.assessText(text).map(factor => factor.code)).toEqual(codes);
+  });
+});
@@ -0,0 +1,265 @@
+import { Prisma, RiskReview, ScrapedListing } from '@prisma/client';
+import { prisma } from '../config/database';
+import { normalizeText } from '../utils/text';
+
+export interface RiskFactor {
+  code: string;
+  label: string;   // Shown in the admin review queue
+  weight: number;  // 0-1, probability that this signal alone means a scam
+}
+
+// Matched against accent-free lowercase text
+const TEXT_SIGNALS: Array<{ code: string; label: string; weight: number; pattern: RegExp }> = [
+  {
+    code: 'upfront_payment',
+    label: 'Paiement demandé avant la visite',
+    weight: 0.35,
+    pattern: /frais de (visite|dossier|reservation)|payer avant (la )?visite|(paiement|versement|acompte) (avant|pour) (la )?(visite|reservation)|reserve[rz] en (payant|envoyant)/,
+  },
+  {
+    code: 'money_transfer',
+    label: 'Transfert d\'argent à distance',
+    weight: 0.25,
+    pattern: /airtel money|moov money|mobile money|orange money|western union|moneygram|envoyer (l |de l )?argent|par transfert/,
+  },
+  {
+    code: 'absent_owner',
+    label: 'Propriétaire à l\'étranger ou absent',
+    weight: 0.35,
+    pattern: /(je suis|suis actuellement|je vis|j habite|je reside|proprietaire est) (a l etranger|en france|hors du pays|en mission|a l exterieur|en voyage)|\bcles?\b.{0,30}\b(dhl|fedex|colis|la poste|expedi\w*)/,
+  },
+  {
+    code: 'no_visit',
+    label: 'Visite impossible',
+    weight: 0.25,
+    pattern: /sans visite|pas de visite|visite (impossible|pas possible)|pas besoin de visiter/,
+  },
+  {
+    code: 'pressure',
+    label: 'Pression pour payer vite',
+    weight: 0.1,
+    pattern: /premier a payer|1er a payer|premier qui (paye|envoie)|payez vite/,
+  },
+];
+
+/**
+ * Fraud risk of a listing from its text, its price against the quartier median,
+ * photos reused by other contacts and the history of its author.
+ * Signals are combined as independent probabilities (noisy-or).
+ */
+export class RiskScoringService {
+  private threshold: number;
+  private minMedianSamples: number;
+
+  constructor() {
+    this.threshold = parseFloat(process.env.RISK_THRESHOLD || '0.6');
+    this.minMedianSamples = parseInt(process.env.RISK_MIN_MEDIAN_SAMPLES || '5');
+  }
+
+  /**
+   * Score a listing and queue it for review when the risk is high.
+   * Decisions already taken by an admin are kept.
+   */
+  async scoreListing(listing: ScrapedListing): Promise<ScrapedListing> {
+    const factors = await this.assess(listing);
+    const score = this.combine(factors);
+    const reviewed = listing.riskReview === 'CLEARED' || listing.riskReview === 'FRAUD';
+
+    const updated = await prisma.scrapedListing.update({
+      where: { id: listing.id },
+      data: {
+        riskScore: score,
+        riskFactors: factors as unknown as Prisma.InputJsonArray,
+        riskReview: reviewed ? listing.riskReview : score >= this.threshold ? 'PENDING' : null,
+      },
+    });
+
+    if (updated.riskReview === 'PENDING') {
+      console.log(`🚩 Listing ${listing.postId} queued for fraud review (risk: ${score.toFixed(2)})`);
+    }
+    return updated;
+  }
+
+  /**
+   * High-risk listings stay out of matching until an admin clears them
+   */
+  isHidden(listing: Pick<ScrapedListing, 'riskReview'>): boolean {
+    return listing.riskReview === 'PENDING' || listing.riskReview === 'FRAUD';
+  }
+
+  /**
+   * Every risk signal found for a listing
+   */
+  async assess(listing: ScrapedListing): Promise<RiskFactor[]> {
+    const factors = this.assessText(listing.originalText);
+
+    const [priceFactor, imageFactor, authorFactors] = await Promise.all([
+      this.assessPrice(listing),
+      this.assessImages(listing),
+      this.assessAuthor(listing),
+    ]);
+    if (priceFactor) factors.push(priceFactor);
+    if (imageFactor) factors.push(imageFactor);
+    factors.push(...authorFactors);
+
+    return factors;
+  }
+
+  /**
+   * Scam wording found in a post
+   */
+  assessText(originalText: string): RiskFactor[] {
+    const text = normalizeText(originalText).replace(/[’']/g, ' ');
+    return TEXT_SIGNALS
+      .filter(signal => signal.pattern.test(text))
+      .map(({ code, label, weight }) => ({ code, label, weight }));
+  }
+
+  /**
+   * Admin decision on a listing of the review queue
+   */
+  async review(listingId: string, decision: 'CLEARED' | 'FRAUD'): Promise<ScrapedListing> {
+    const listing = await prisma.scrapedListing.update({
+      where: { id: listingId },
+      data: { riskReview: decision, riskReviewedAt: new Date() },
+    });
+
+    await prisma.activityLog.create({
+      data: {
+        action: decision === 'FRAUD' ? 'LISTING_MARKED_FRAUD' : 'LISTING_RISK_CLEARED',
+        entityType: 'ScrapedListing',
+        entityId: listing.id,
+        metadata: { riskScore: listing.riskScore } as Prisma.InputJsonObject,
+      },
+    });
+
+    return listing;
+  }
+
+  /**
+   * Listings waiting for a decision, riskiest first
+   */
+  async getReviewQueue(options: { page: number; limit: number; status?: RiskReview }) {
+    const where: Prisma.ScrapedListingWhereInput = { riskReview: options.status || 'PENDING' };
+    const [listings, total] = await Promise.all([
+      prisma.scrapedListing.findMany({
+        where,
+        orderBy: [{ riskScore: 'desc' }, { scrapedAt: 'desc' }],
+        skip: (options.page - 1) * options.limit,
+        take: options.limit,
+      }),
+      prisma.scrapedListing.count({ where }),
+    ]);
+
+    return { listings, total };
+  }
+
+  /**
+   * Price far below the median of comparable listings in the same quartier
+   */
+  private async assessPrice(listing: ScrapedListing): Promise<RiskFactor | null> {
+    if (!listing.price || !listing.location) {
+      return null;
+    }
+
+    const comparable = await prisma.scrapedListing.findMany({
+      where: {
+        id: { not: listing.id },
+        location: listing.location,
+        propertyType: listing.propertyType,
+        transactionType: listing.transactionType,
+        pricePeriod: listing.pricePeriod,
+        price: { not: null },
+        isValid: true,
+        riskReview: { not: 'FRAUD' },
+        scrapedAt: { gte: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000) },
+      },
+      select: { price: true },
+      orderBy: { scrapedAt: 'desc' },
+      take: 200,
+    });
+    if (comparable.length < this.minMedianSamples) {
+      return null;
+    }
+
+    const prices = comparable.map(l => l.price as number).sort((a, b) => a - b);
+    const median = prices[Math.floor(prices.length / 2)];
+    const ratio = listing.price / median;
+    if (ratio >= 0.5) {
+      return null;
+    }
+
+    return {
+      code: 'price_anomaly',
+      label: `Prix à ${Math.round(ratio * 100)}% de la médiane du quartier (${median.toLocaleString()} FCFA)`,
+      weight: ratio < 0.35 ? 0.4 : 0.3,
+    };
+  }
+
+  /**
+   * Same photos posted with another phone number: photos taken from a real listing
+   */
+  private async assessImages(listing: ScrapedListing): Promise<RiskFactor | null> {
+    const phones = listing.phones;
+    if (listing.imageKeys.length === 0 || phones.length === 0) {
+      return null;
+    }
+
+    const others = await prisma.scrapedListing.findMany({
+      where: {
+        id: { not: listing.id },
+        imageKeys: { hasSome: listing.imageKeys },
+      },
+      select: { phones: true },
+      take: 20,
+    });
+
+    const reused = others.some(other =>
+      other.phones.length > 0 && !other.phones.some(phone => phones.includes(phone))
+    );
+
+    return reused
+      ? { code: 'reused_images', label: 'Photos déjà publiées avec un autre numéro', weight: 0.3 }
+      : null;
+  }
+
+  /**
+   * Author or phone number already involved in a confirmed fraud, or juggling many numbers
+   */
+  private async assessAuthor(listing: ScrapedListing): Promise<RiskFactor[]> {
+    const factors: RiskFactor[] = [];
+
+    const linked: Prisma.ScrapedListingWhereInput[] = [];
+    if (listing.phones.length > 0) linked.push({ phones: { hasSome: listing.phones } });
+    if (listing.authorId) linked.push({ authorId: listing.authorId });
+    if (linked.length > 0) {
+      const knownFraud = await prisma.scrapedListing.count({
+        where: { id: { not: listing.id }, riskReview: 'FRAUD', OR: linked },
+      });
+      if (knownFraud > 0) {
+        factors.push({ code: 'known_fraud', label: 'Auteur ou numéro déjà signalé pour fraude', weight: 0.6 });
+      }
+    }
+
+    if (listing.authorId) {
+      const history = await prisma.scrapedListing.findMany({
+        where: { authorId: listing.authorId },
+        select: { phones: true },
+        take: 50,
+      });
+      const authorPhones = new Set(history.flatMap(other => other.phones));
+      if (authorPhones.size > 3) {
+        factors.push({ code: 'many_contacts', label: `L'auteur utilise ${authorPhones.size} numéros différents`, weight: 0.15 });
+      }
+    }
+
+    return factors;
+  }
+
+  private combine(factors: RiskFactor[]): number {
+    const safe = factors.reduce((probability, factor) => probability * (1 - factor.weight), 1);
+    return Math.round((1 - safe) * 1000) / 1000;
+  }
+}
+
+export const riskScoringService = new RiskScoringService();
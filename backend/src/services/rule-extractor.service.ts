@@ -0,0 +1,138 @@
+import { PropertyType } from '@prisma/client';
+import type { ExtractedPropertyData } from './ai-classifier.service';
+import { gazetteerService } from './gazetteer.service';
+import { detectAmenities } from '../utils/amenities';
+import { extractFcfaAmounts } from '../utils/price';
+import { extractGabonPhones } from '../utils/phone';
+import { detectPropertyTypes } from '../utils/property-types';
+import { RentalTerms, extractRentalTerms } from '../utils/rental-terms';
+
+// Amounts announced by these words are not the price itself
+const NON_PRICE_CONTEXT = /(caution|avance|garantie|frais|commission|d[ée]p[oô]t)[^\d]{0,15}$/;
+const PRICE_CONTEXT = /(?:^|\s)(loyer|prix|montant|co[uû]t|à|a)\s*:?\s*$/;
+
+/**
+ * Deterministic listing extractor: no network call, same text gives the same result.
+ * Used before the LLM, when it fails, or alone for offline deployments.
+ */
+export class RuleExtractorService {
+  /**
+   * Extract structured data from a listing text
+   */
+  extract(text: string): ExtractedPropertyData {
+    const lower = text.toLowerCase();
+    const phones = extractGabonPhones(text);
+
+    // Phone numbers look like prices once their spaces are removed
+    let withoutPhones = lower;
+    for (const phone of phones) {
+      withoutPhones = withoutPhones.substring(0, phone.index) + ' '.repeat(phone.length) + withoutPhones.substring(phone.index + phone.length);
+    }
+
+    const propertyType = detectPropertyTypes(lower)[0];
+    const transactionType = this.extractTransactionType(lower, propertyType);
+    const places = gazetteerService.resolve(text);
+    const price = this.extractPrice(withoutPhones);
+
+    // Sales have no caution or avance, and their price is not a monthly rent
+    const terms: RentalTerms = transactionType === 'SALE' ? {} : extractRentalTerms(withoutPhones, price);
+    if (transactionType && transactionType !== 'SALE' && !terms.pricePeriod) {
+      terms.pricePeriod = 'MONTH';
+    }
+
+    const data: ExtractedPropertyData = {
+      title: this.extractTitle(text),
+      price,
+      location: places.length > 0 ? gazetteerService.normalizeLocation(text) : undefined,
+      surface: this.extractSurface(lower),
+      rooms: this.extractRooms(lower, propertyType),
+      propertyType,
+      transactionType,
+      ...terms,
+      contact: phones.length > 0 ? phones.map(p => p.phone).join(', ') : undefined,
+      furnished: this.extractFurnished(lower),
+      amenities: detectAmenities(text),
+      confidence: 0,
+    };
+
+    data.confidence = this.estimateConfidence(data);
+    return data;
+  }
+
+  private extractTitle(text: string): string | undefined {
+    const firstLine = text.split('\n').map(line => line.trim()).find(line => line.length > 0);
+    return firstLine ? firstLine.substring(0, 100) : undefined;
+  }
+
+  /**
+   * Prefer an amount introduced as the rent or price, then the first written with a currency
+   */
+  private extractPrice(text: string): number | undefined {
+    const amounts = extractFcfaAmounts(text, 10000).filter(amount =>
+      !NON_PRICE_CONTEXT.test(text.substring(Math.max(0, amount.index - 30), amount.index))
+    );
+    if (amounts.length === 0) return undefined;
+
+    const introduced = amounts.find(amount => {
+      const before = text.substring(Math.max(0, amount.index - 12), amount.index);
+      const after = text.substring(amount.index + amount.length, amount.index + amount.length + 15);
+      return PRICE_CONTEXT.test(before) || /^\s*(\/|par|le|la)\s*(mois|nuit|nuitée|jour)/.test(after);
+    });
+
+    return (introduced || amounts.find(amount => amount.explicit) || amounts[0]).value;
+  }
+
+  private extractSurface(text: string): number | undefined {
+    const surface = text.match(/(\d+(?:[.,]\d+)?)\s*(?:m2|m²|mètres carrés|metres carres|mètres²)/);
+    return surface ? Math.round(parseFloat(surface[1].replace(',', '.'))) : undefined;
+  }
+
+  /**
+   * "2 chambres salon" = 3 pièces, "T3" = 3, studio = 1
+   */
+  private extractRooms(text: string, propertyType?: PropertyType): number | undefined {
+    const pieces = text.match(/(\d+)\s*(?:pièces|pieces|pièce|piece)\b/);
+    if (pieces) return parseInt(pieces[1]);
+
+    const typed = text.match(/\b[tf]\s?(\d)\b/);
+    if (typed) return parseInt(typed[1]);
+
+    const bedrooms = text.match(/(\d+)\s*chambres?/);
+    if (bedrooms) return parseInt(bedrooms[1]) + (/salons?/.test(text) ? 1 : 0);
+
+    if (/\bchambre salon\b/.test(text)) return 2;
+    if (propertyType === 'STUDIO' || propertyType === 'ROOM') return 1;
+    return undefined;
+  }
+
+  private extractTransactionType(text: string, propertyType?: PropertyType): ExtractedPropertyData['transactionType'] {
+    if (/bail commercial/.test(text)) return 'COMMERCIAL_LEASE';
+    if (/(à vendre|\ba vendre|\bvente\b|\bvends\b|\bvendre\b|prix de cession)/.test(text)) return 'SALE';
+    if (/(à louer|\ba louer|\blocation\b|\bloyer\b|\bbail\b|par mois|\/mois)/.test(text)) {
+      return propertyType === 'COMMERCIAL' || propertyType === 'OFFICE' ? 'COMMERCIAL_LEASE' : 'RENT';
+    }
+    return undefined;
+  }
+
+  private extractFurnished(text: string): boolean | undefined {
+    if (/non[\s-]?meubl/.test(text)) return false;
+    if (/meubl/.test(text)) return true;
+    return undefined;
+  }
+
+  /**
+   * Rough confidence: a price and a known location make a usable listing
+   */
+  private estimateConfidence(data: ExtractedPropertyData): number {
+    let confidence = 0;
+    if (data.price) confidence += 0.3;
+    if (data.location) confidence += 0.25;
+    if (data.propertyType) confidence += 0.15;
+    if (data.transactionType) confidence += 0.1;
+    if (data.rooms || data.surface) confidence += 0.1;
+    if (data.contact) confidence += 0.05;
+    return Math.min(0.9, Math.round(confidence * 100) / 100);
+  }
+}
+
+export const ruleExtractorService = new RuleExtractorService();
@@ -0,0 +1,191 @@
+import { SavedSearch, ScrapeRun, ScrapeTrigger } from '@prisma/client';
+import { prisma } from '../config/database';
+import { apiQuotaService } from './api-quota.service';
+import { facebookScraperService, FacebookPost, ScrapingResult } from './facebook-scraper.service';
+import { scrapeRunService } from './scrape-run.service';
+
+// Where a search runs: a monitored group, or every group (id null) for a global search
+interface SearchTarget {
+  id: string | null;
+  facebookGroupId?: string;
+  name: string;
+}
+
+/**
+ * Saved searches of posts for high-value terms ("villa à louer Akanda"). They catch what the group
+ * scrapes miss (keyword filters, catch-up limits) and feed the same pipeline: a post already
+ * scraped from its group or by another search is counted as a duplicate and skipped.
+ */
+export class SavedSearchService {
+  private maxPages: number;
+  private running = false; // A slow run must not be started again by the next cron tick
+
+  constructor() {
+    // Result pages read per searched group and run
+    this.maxPages = parseInt(process.env.SAVED_SEARCH_MAX_PAGES || '2');
+  }
+
+  /**
+   * Active searches whose next run time has come, most important first.
+   * Low-priority searches wait while the API budget is at risk.
+   */
+  async getDueSearches(): Promise<SavedSearch[]> {
+    const searches = await prisma.savedSearch.findMany({
+      where: {
+        isActive: true,
+        OR: [{ nextRunAt: null }, { nextRunAt: { lte: new Date() } }],
+      },
+      orderBy: [{ priority: 'desc' }, { nextRunAt: { sort: 'asc', nulls: 'first' } }],
+    });
+
+    const due: SavedSearch[] = [];
+    for (const search of searches) {
+      if (await apiQuotaService.canScrape(search.priority)) {
+        due.push(search);
+      }
+    }
+    return due;
+  }
+
+  /**
+   * Run the due searches, stopping when the API key is rate limited.
+   * Skipped while the previous batch is still running.
+   */
+  async runDueSearches(): Promise<number> {
+    if (this.running) {
+      console.log('⏳ Saved searches still running, skipping this round');
+      return 0;
+    }
+
+    this.running = true;
+    try {
+      const searches = await this.getDueSearches();
+
+      for (const search of searches) {
+        try {
+          const run = await this.runSearch(search, 'SCHEDULED');
+          if (run.errorKind === 'RATE_LIMITED') {
+            console.warn('⏸️ RapidAPI rate limit reached, saved searches stopped');
+            break;
+          }
+        } catch (error) {
+          console.error(`❌ Error running saved search "${search.query}":`, error);
+        }
+      }
+
+      return searches.length;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Search the posts of the targets of a saved search, save the new ones and schedule the next run
+   */
+  async runSearch(search: SavedSearch, trigger: ScrapeTrigger = 'SCHEDULED'): Promise<ScrapeRun> {
+    const startedAt = new Date();
+    const targets = await this.getTargets(search);
+
+    // A post found in several groups or pages is processed once
+    const found = new Map<string, { post: FacebookPost; target: SearchTarget }>();
+    let pagesFetched = 0;
+    let apiCalls = 0;
+    let errors = 0;
+    let failure: ScrapingResult | null = null;
+
+    for (const target of targets) {
+      let cursor: string | undefined;
+      for (let page = 0; page < this.maxPages; page++) {
+        const result = await facebookScraperService.searchGroupPosts(search.query, target.facebookGroupId, cursor);
+        apiCalls += result.apiCalls ?? 0;
+
+        if (!result.success) {
+          errors++;
+          failure = result;
+          break;
+        }
+        pagesFetched++;
+
+        for (const post of result.posts) {
+          if (post.id && !found.has(post.id)) found.set(post.id, { post, target });
+        }
+        if (!result.cursor || result.posts.length === 0) break;
+        cursor = result.cursor;
+      }
+
+      if (failure?.errorKind === 'RATE_LIMITED') break;
+    }
+
+    const existing = await prisma.scrapedListing.findMany({
+      where: { postId: { in: Array.from(found.keys()) } },
+      select: { postId: true },
+    });
+    const seenPostIds = new Set(existing.map(listing => listing.postId));
+
+    const newListingIds: string[] = [];
+    for (const { post, target } of found.values()) {
+      if (seenPostIds.has(post.id)) continue;
+      try {
+        const listingId = await facebookScraperService.processPost(post, { id: target.id, name: target.name });
+        if (listingId) newListingIds.push(listingId);
+      } catch (error) {
+        errors++;
+        console.error(`Error saving post ${post.id} found by "${search.query}":`, error);
+      }
+    }
+
+    // Failing on some groups still makes a run, failing on all of them does not
+    const success = pagesFetched > 0 || targets.length === 0;
+    const duplicates = Array.from(found.keys()).filter(postId => seenPostIds.has(postId)).length;
+
+    await prisma.savedSearch.update({
+      where: { id: search.id },
+      data: {
+        lastRunAt: new Date(),
+        nextRunAt: new Date(Date.now() + search.intervalMinutes * 60 * 1000),
+        lastError: failure?.error ?? null,
+        totalFound: { increment: found.size },
+        totalNew: { increment: newListingIds.length },
+        totalDuplicates: { increment: duplicates },
+      },
+    });
+
+    console.log(`🔎 Saved search "${search.query}": ${found.size} posts in ${targets.length} target(s), ${newListingIds.length} new, ${duplicates} already seen`);
+
+    return scrapeRunService.record({
+      savedSearchId: search.id,
+      trigger,
+      startedAt,
+      success,
+      errorKind: success ? null : failure?.errorKind ?? 'UNKNOWN',
+      error: failure?.error ?? null,
+      pagesFetched,
+      postsFetched: found.size,
+      newPosts: newListingIds.length,
+      duplicates,
+      errors,
+      apiCalls,
+    });
+  }
+
+  private async getTargets(search: SavedSearch): Promise<SearchTarget[]> {
+    if (search.scope === 'GLOBAL') {
+      return [{ id: null, name: `Recherche « ${search.query} »` }];
+    }
+
+    const groups = await prisma.facebookGroup.findMany({
+      where: search.scope === 'GROUP'
+        ? { id: search.groupId ?? '' }
+        : {
+          isActive: true,
+          // Groups paused by their circuit breaker fail searches too
+          OR: [{ circuitOpenUntil: null }, { circuitOpenUntil: { lte: new Date() } }],
+        },
+      orderBy: { priority: 'desc' },
+    });
+
+    return groups.map(group => ({ id: group.id, facebookGroupId: group.groupId, name: group.name }));
+  }
+}
+
+export const savedSearchService = new SavedSearchService();
@@ -0,0 +1,121 @@
+import { Prisma, ScrapeRun } from '@prisma/client';
+import { prisma } from '../config/database';
+
+export type ScrapeRunStats = Omit<Prisma.ScrapeRunUncheckedCreateInput, 'id' | 'finishedAt' | 'durationMs'> & { startedAt: Date };
+
+export interface ScrapeRunDay {
+  date: string;
+  runs: number;
+  failedRuns: number;
+  postsFetched: number;
+  keywordFiltered: number;
+  newPosts: number;
+  duplicates: number;
+  errors: number;
+  apiCalls: number;
+}
+
+/**
+ * History of the group scrapes and saved search runs: what each run fetched, kept, skipped and cost
+ */
+export class ScrapeRunService {
+  private retentionDays: number;
+
+  constructor() {
+    this.retentionDays = parseInt(process.env.SCRAPE_RUN_RETENTION_DAYS || '90');
+  }
+
+  /**
+   * Save a finished run
+   */
+  async record(stats: ScrapeRunStats): Promise<ScrapeRun> {
+    const finishedAt = new Date();
+    return prisma.scrapeRun.create({
+      data: {
+        ...stats,
+        error: stats.error ? stats.error.substring(0, 500) : stats.error,
+        finishedAt,
+        durationMs: finishedAt.getTime() - stats.startedAt.getTime(),
+      },
+    });
+  }
+
+  /**
+   * Latest runs, of one group, of one saved search or of all
+   */
+  async getRuns(filters: { groupId?: string; savedSearchId?: string; success?: boolean; page: number; limit: number }) {
+    const where: Prisma.ScrapeRunWhereInput = {};
+    if (filters.groupId) where.groupId = filters.groupId;
+    if (filters.savedSearchId) where.savedSearchId = filters.savedSearchId;
+    if (filters.success !== undefined) where.success = filters.success;
+
+    const [runs, total] = await Promise.all([
+      prisma.scrapeRun.findMany({
+        where,
+        include: { group: { select: { name: true } }, savedSearch: { select: { query: true } } },
+        orderBy: { startedAt: 'desc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      prisma.scrapeRun.count({ where }),
+    ]);
+
+    return { runs, total };
+  }
+
+  /**
+   * Totals per day over the last `days` days, oldest first
+   */
+  async getDailyStats(days: number, filters: { groupId?: string; savedSearchId?: string } = {}): Promise<ScrapeRunDay[]> {
+    const since = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000);
+    since.setUTCHours(0, 0, 0, 0);
+
+    const runs = await prisma.scrapeRun.findMany({
+      where: {
+        startedAt: { gte: since },
+        ...(filters.groupId ? { groupId: filters.groupId } : {}),
+        ...(filters.savedSearchId ? { savedSearchId: filters.savedSearchId } : {}),
+      },
+      select: {
+        startedAt: true, success: true, postsFetched: true, keywordFiltered: true,
+        newPosts: true, duplicates: true, errors: true, apiCalls: true,
+      },
+    });
+
+    const byDay = new Map<string, ScrapeRunDay>();
+    for (let i = 0; i < days; i++) {
+      const date = new Date(since.getTime() + i * 24 * 60 * 60 * 1000).toISOString().substring(0, 10);
+      byDay.set(date, {
+        date, runs: 0, failedRuns: 0, postsFetched: 0, keywordFiltered: 0,
+        newPosts: 0, duplicates: 0, errors: 0, apiCalls: 0,
+      });
+    }
+
+    for (const run of runs) {
+      const day = byDay.get(run.startedAt.toISOString().substring(0, 10));
+      if (!day) continue;
+      day.runs++;
+      if (!run.success) day.failedRuns++;
+      day.postsFetched += run.postsFetched;
+      day.keywordFiltered += run.keywordFiltered;
+      day.newPosts += run.newPosts;
+      day.duplicates += run.duplicates;
+      day.errors += run.errors;
+      day.apiCalls += run.apiCalls;
+    }
+
+    return Array.from(byDay.values());
+  }
+
+  /**
+   * Delete the runs older than the retention period
+   */
+  async pruneOldRuns(): Promise<number> {
+    const result = await prisma.scrapeRun.deleteMany({
+      where: { startedAt: { lt: new Date(Date.now() - this.retentionDays * 24 * 60 * 60 * 1000) } },
+    });
+    return result.count;
+  }
+}
+
+export const scrapeRunService = new ScrapeRunService();
@@ -0,0 +1,53 @@
+import { Amenity } from '@prisma/client';
+import { normalizeText } from './text';
+
+export const AMENITY_LABELS: Record<Amenity, string> = {
+  BOREHOLE: 'Forage',
+  GENERATOR: 'Groupe électrogène',
+  AIR_CONDITIONING: 'Climatisation',
+  GUARD: 'Gardien',
+  PARKING: 'Parking',
+  FENCE: 'Clôture',
+  TILED_FLOOR: 'Carrelage',
+  SEPARATE_METER: 'Compteur SEEG séparé',
+  WATER_HEATER: 'Chauffe-eau',
+  WATER_TANK: 'Réserve d\'eau',
+  POOL: 'Piscine',
+  GARDEN: 'Jardin',
+};
+
+// Matched against accent-free lowercase text
+const AMENITY_PATTERNS: Array<[Amenity, RegExp]> = [
+  ['BOREHOLE', /\bforages?\b/],
+  ['GENERATOR', /\b(groupe electrogene|groupe electro|generateur|electrogene)\b/],
+  ['AIR_CONDITIONING', /\b(climatis\w*|clim|climatiseurs?|splits? clim\w*)\b/],
+  ['GUARD', /\b(gardiens?|gardiennage|vigiles?|securite 24h?)\b/],
+  ['PARKING', /\b(parkings?|garages?|stationnement|place pour (une |deux )?voitures?)\b/],
+  ['FENCE', /\b(clotur\w*|barriere|portail)\b/],
+  ['TILED_FLOOR', /\b(carrel\w*|carreaux)\b/],
+  ['SEPARATE_METER', /\b(compteurs? (seeg |d eau |electrique )?(separes?|individuels?|personnels?)|compteur seeg|compteur prepaye)\b/],
+  ['WATER_HEATER', /\b(chauffe[ -]eau|eau chaude|ballon d eau)\b/],
+  ['WATER_TANK', /\b(citernes?|bache a eau|reservoirs?|reserve d eau|chateau d eau|surpresseur)\b/],
+  ['POOL', /\bpiscines?\b/],
+  ['GARDEN', /\b(jardins?|espace vert|cour arboree)\b/],
+];
+
+export const AMENITIES = Object.keys(AMENITY_LABELS) as Amenity[];
+
+/**
+ * Every amenity mentioned in a text
+ */
+export function detectAmenities(text: string): Amenity[] {
+  const normalized = normalizeText(text).replace(/[’']/g, ' ');
+  return AMENITY_PATTERNS
+    .filter(([, pattern]) => pattern.test(normalized))
+    .map(([amenity]) => amenity);
+}
+
+/**
+ * "Forage, Parking", or the fallback when the list is empty
+ */
+export function describeAmenities(amenities: Amenity[] | undefined, fallback = 'Aucun'): string {
+  if (!amenities || amenities.length === 0) return fallback;
+  return amenities.map(amenity => AMENITY_LABELS[amenity]).join(', ');
+}
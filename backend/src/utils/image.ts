@@ -0,0 +1,15 @@
+/**
+ * Stable key of a Facebook CDN photo: its file name. The host and the signed
+ * query string change between shares and fetches of the same photo.
+ */
+export function getImageKey(url: string): string {
+  const path = url.split(/[?#]/)[0];
+  return path.substring(path.lastIndexOf('/') + 1) || path;
+}
+
+/**
+ * Distinct photo keys of a listing
+ */
+export function getImageKeys(images: string[]): string[] {
+  return Array.from(new Set(images.map(getImageKey)));
+}
@@ -0,0 +1,42 @@
+// "077 12 34 56", "06.12.34.56", "+241 66 12 34 56", "00241 074123456"
+const GABON_PHONE_PATTERN = /(?<![\d+])((?:\+|00)\s?241[\s.-]?)?(0?[1-7]\d?(?:[\s.-]?\d{2}){3})(?!\d)/g;
+
+export interface PhoneMatch {
+  phone: string;  // National format with its leading 0, e.g. "077123456"
+  index: number;
+  length: number;
+}
+
+/**
+ * Find Gabonese phone numbers in a text, normalized to their national digits
+ */
+export function extractGabonPhones(text: string): PhoneMatch[] {
+  const phones: PhoneMatch[] = [];
+  const pattern = new RegExp(GABON_PHONE_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const digits = match[2].replace(/\D/g, '');
+    // Without a country code, only numbers written with their leading 0 are trusted
+    if (!match[1] && !digits.startsWith('0')) continue;
+
+    phones.push({
+      phone: digits.startsWith('0') ? digits : `0${digits}`,
+      index: match.index,
+      length: match[0].length,
+    });
+  }
+
+  return phones;
+}
+
+/**
+ * Distinct phone numbers of a listing, from its extracted contact and its text
+ */
+export function getListingPhones(listing: { contact: string | null; originalText: string }): string[] {
+  const phones = [
+    ...extractGabonPhones(listing.contact || ''),
+    ...extractGabonPhones(listing.originalText),
+  ].map(match => match.phone);
+  return Array.from(new Set(phones));
+}
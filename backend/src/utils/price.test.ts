@@ -0,0 +1,27 @@
+import { extractFcfaAmounts, parseFcfaAmount } from './price';
+
+describe('parseFcfaAmount', () => {
+  it.each([
+    ['150.000f', 150000],
+    ['150 000 FCFA', 150000],
+    ['150 mille', 150000],
+    ['1,5 million', 1500000],
+    ['150k', 150000],
+    ['250000', 250000],
+  ])('reads "%s" as %d', (raw, expected) => {
+    expect(parseFcfaAmount(raw)).toBe(expected);
+  });
+});
+
+describe('extractFcfaAmounts', () => {
+  it.each([
+    ['entre 20 et 40 millions', [20000000, 40000000]],
+    ['de 100 à 150 mille', [100000, 150000]],
+    ['entre 1,5 et 2 millions', [1500000, 2000000]],
+    ['entre 100000 et 300000 fcfa', [100000, 300000]],
+    ['2 chambres à 150 mille', [150000]],
+    ['T3 50m2 à 200000', [200000]],
+  ])('finds the amounts of "%s"', (text, expected) => {
+    expect(extractFcfaAmounts(text).map(amount => amount.value)).toEqual(expected);
+  });
+});
@@ -0,0 +1,68 @@
+export interface FcfaAmount {
+  value: number;
+  index: number;   // Position of the amount in the source text
+  length: number;
+  explicit: boolean; // Written with a currency or a multiplier (mille, million, k...)
+}
+
+// "150.000f", "150 000 FCFA", "150 mille", "1,5 million", "150k", "250000"
+const AMOUNT_PATTERN = /(?<![\w.,])(\d{1,3}(?:[ .,\u00a0]\d{3})+|\d+(?:[.,]\d+)?)\s*(millions?|mille|mil|k|f\s?cfa|fcfa|cfa|frs?|f)?(?![a-zà-ÿ²\d])/gi;
+
+/**
+ * Parse a single FCFA amount written in any of the usual local forms
+ */
+export function parseFcfaAmount(raw: string): number | null {
+  AMOUNT_PATTERN.lastIndex = 0;
+  const match = AMOUNT_PATTERN.exec(raw.trim());
+  if (!match) return null;
+  return toAmount(match[1], match[2]);
+}
+
+/**
+ * Find every plausible FCFA amount in a text.
+ * Small bare numbers (room counts, surfaces...) are ignored.
+ */
+export function extractFcfaAmounts(text: string, minValue: number = 5000): FcfaAmount[] {
+  const amounts: FcfaAmount[] = [];
+  const pattern = new RegExp(AMOUNT_PATTERN.source, 'gi');
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const unit = match[2] || rangeUnit(text, match.index, match.index + match[0].length);
+    const value = toAmount(match[1], unit);
+    if (value === null || value < minValue) continue;
+
+    amounts.push({
+      value,
+      index: match.index,
+      length: match[0].length,
+      explicit: Boolean(unit),
+    });
+  }
+
+  return amounts;
+}
+
+/**
+ * "entre 20 et 40 millions", "de 100 à 150 mille": the unit written after the
+ * second number of a range applies to the first one too
+ */
+function rangeUnit(text: string, start: number, end: number): string | undefined {
+  if (!/\b(entre|de)\s*$/i.test(text.substring(0, start))) return undefined;
+  const range = text.substring(end).match(/^\s*(?:et|à|a|-)\s*\d+(?:[.,]\d+)?\s*(millions?|mille|mil|k)(?![a-zà-ÿ])/i);
+  return range?.[1];
+}
+
+function toAmount(digits: string, unit?: string): number | null {
+  const grouped = /^\d{1,3}(?:[ .,\u00a0]\d{3})+$/.test(digits);
+  const base = grouped
+    ? parseInt(digits.replace(/[ .,\u00a0]/g, ''))
+    : parseFloat(digits.replace(',', '.'));
+
+  if (isNaN(base)) return null;
+
+  const u = (unit || '').toLowerCase();
+  if (u.startsWith('million')) return Math.round(base * 1000000);
+  if (u === 'mille' || u === 'mil' || u === 'k') return Math.round(base * 1000);
+  return Math.round(base);
+}
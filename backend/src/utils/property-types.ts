@@ -0,0 +1,59 @@
+import { PropertyType } from '@prisma/client';
+
+export const PROPERTY_TYPE_LABELS: Record<PropertyType, string> = {
+  STUDIO: 'Studio',
+  ROOM: 'Chambre',
+  APARTMENT: 'Appartement',
+  HOUSE: 'Maison',
+  VILLA: 'Villa',
+  DUPLEX: 'Duplex',
+  LAND: 'Terrain',
+  COMMERCIAL: 'Local commercial',
+  OFFICE: 'Bureau',
+};
+
+export const PROPERTY_TYPE_EMOJIS: Record<PropertyType, string> = {
+  STUDIO: '🛏️',
+  ROOM: '🛏️',
+  APARTMENT: '🏢',
+  HOUSE: '🏡',
+  VILLA: '🏰',
+  DUPLEX: '🏘️',
+  LAND: '🌳',
+  COMMERCIAL: '🏪',
+  OFFICE: '💼',
+};
+
+// Checked in order: the most specific wording wins for a single listing
+const PROPERTY_TYPE_PATTERNS: Array<[PropertyType, RegExp]> = [
+  ['COMMERCIAL', /\b(local commercial|locaux commerciaux|magasins?|boutiques?|entrep[oô]ts?)\b/],
+  ['OFFICE', /\b(bureaux?|plateau de bureau)\b/],
+  ['LAND', /\b(terrains?|parcelles?)\b/],
+  ['DUPLEX', /\bduplex\b/],
+  ['VILLA', /\bvillas?\b/],
+  ['STUDIO', /\bstudios?\b/],
+  ['APARTMENT', /\b(appartements?|apparts?|appt)\b/],
+  ['HOUSE', /\bmaisons?\b/],
+  // "chambre" or "chambre salon" on its own, not "3 chambres salon"
+  ['ROOM', /(?<!\d\s?)\bchambre(?: salon)?\b/],
+];
+
+export const PROPERTY_TYPES = Object.keys(PROPERTY_TYPE_LABELS) as PropertyType[];
+
+/**
+ * Every property type mentioned in a text, most specific first
+ */
+export function detectPropertyTypes(text: string): PropertyType[] {
+  const lower = text.toLowerCase();
+  return PROPERTY_TYPE_PATTERNS
+    .filter(([, pattern]) => pattern.test(lower))
+    .map(([type]) => type);
+}
+
+/**
+ * "Studio ou appartement", or "Tous types" when no type is selected
+ */
+export function describePropertyTypes(types: PropertyType[] | undefined): string {
+  if (!types || types.length === 0) return 'Tous types';
+  return types.map(type => PROPERTY_TYPE_LABELS[type]).join(' ou ');
+}
@@ -0,0 +1,123 @@
+import { PricePeriod } from '@prisma/client';
+import { extractFcfaAmounts } from './price';
+import { normalizeText } from './text';
+
+export interface RentalTerms {
+  pricePeriod?: PricePeriod;
+  depositMonths?: number;    // Caution
+  advanceMonths?: number;    // Avance, rent paid upfront
+  agencyFeeMonths?: number;  // Frais d'agence / commission expressed in months of rent
+  agencyFee?: number;        // Frais d'agence in FCFA, 0 when "sans frais d'agence"
+}
+
+export const PRICE_PERIOD_SUFFIXES: Record<PricePeriod, string> = {
+  NIGHT: ' / nuit',
+  DAY: ' / jour',
+  WEEK: ' / semaine',
+  MONTH: ' / mois',
+  YEAR: ' / an',
+};
+
+// Monthly equivalent of a price, for comparison with a monthly budget
+const MONTHLY_FACTORS: Record<PricePeriod, number> = {
+  NIGHT: 30,
+  DAY: 30,
+  WEEK: 52 / 12,
+  MONTH: 1,
+  YEAR: 1 / 12,
+};
+
+const AMOUNT = '(\\d[\\d .,]*\\s*(?:millions?|mille|k|f\\s?cfa|fcfa|frs?|f)?)';
+
+/**
+ * Read "3 mois de caution + 2 mois d'avance + 1 mois d'agence" style terms.
+ * Amounts given in FCFA are converted to months when the monthly price is known.
+ */
+export function extractRentalTerms(text: string, price?: number): RentalTerms {
+  const normalized = normalizeText(text).replace(/[’']/g, ' ');
+  const pricePeriod = extractPricePeriod(normalized);
+  const monthlyPrice = price && (!pricePeriod || pricePeriod === 'MONTH') ? price : undefined;
+
+  const terms: RentalTerms = {
+    pricePeriod,
+    depositMonths: extractMonths(normalized, '(?:caution|garantie|depot)', monthlyPrice),
+    advanceMonths: extractMonths(normalized, '(?:avance|loyers? d avance)', monthlyPrice),
+  };
+
+  if (/(sans|pas de|0|zero) (frais d agence|commission|agence)|direct proprio|directement (avec le )?proprietaire/.test(normalized)) {
+    terms.agencyFeeMonths = 0;
+    terms.agencyFee = 0;
+  } else {
+    terms.agencyFeeMonths = extractMonths(normalized, '(?:frais d agence|agence|commission)', monthlyPrice);
+    terms.agencyFee = extractAmountAfter(normalized, '(?:frais d agence|commission)');
+  }
+
+  return terms;
+}
+
+/**
+ * Upfront cost to move in: deposit and advance months of rent plus agency fees.
+ * Undefined for non-monthly prices or when no term is known.
+ */
+export function computeMoveInCost(price: number | null | undefined, terms: RentalTerms): number | undefined {
+  if (!price || (terms.pricePeriod && terms.pricePeriod !== 'MONTH')) return undefined;
+  const agencyFee = resolveAgencyFee(price, terms);
+  if (terms.depositMonths === undefined && terms.advanceMonths === undefined && agencyFee === undefined) {
+    return undefined;
+  }
+
+  // At least the first month is always paid upfront
+  const months = (terms.depositMonths || 0) + Math.max(terms.advanceMonths || 0, 1);
+  return Math.round(price * months + (agencyFee || 0));
+}
+
+/**
+ * Agency fees in FCFA, from an amount or a number of months of rent
+ */
+export function resolveAgencyFee(price: number | null | undefined, terms: RentalTerms): number | undefined {
+  if (terms.agencyFee !== undefined) return terms.agencyFee;
+  if (terms.agencyFeeMonths === undefined || !price) return undefined;
+  return Math.round(terms.agencyFeeMonths * price);
+}
+
+/**
+ * Monthly equivalent of a price given for a night, a day, a week or a year
+ */
+export function toMonthlyPrice(price: number, period?: PricePeriod | null): number {
+  return Math.round(price * MONTHLY_FACTORS[period || 'MONTH']);
+}
+
+function extractPricePeriod(text: string): PricePeriod | undefined {
+  if (/(\/|par |la )nuit|nuitee/.test(text)) return 'NIGHT';
+  if (/(\/|par |la )(jour|journee)\b|\bjournalier/.test(text)) return 'DAY';
+  if (/(\/|par |la )semaine|hebdomadaire/.test(text)) return 'WEEK';
+  if (/(\/|par )an\b|annuel/.test(text)) return 'YEAR';
+  if (/(\/|par |le )mois|mensuel|loyer/.test(text)) return 'MONTH';
+  return undefined;
+}
+
+/**
+ * "3 mois de caution", "caution : 3 mois", "caution 450 000f" (converted with the monthly price)
+ */
+function extractMonths(text: string, label: string, monthlyPrice?: number): number | undefined {
+  const before = text.match(new RegExp(`(\\d+)\\s*mois\\s*(?:de |d )?${label}`));
+  if (before) return parseInt(before[1]);
+
+  const after = text.match(new RegExp(`${label}\\s*:?\\s*(?:de\\s*)?(\\d+)\\s*mois`));
+  if (after) return parseInt(after[1]);
+
+  const amount = extractAmountAfter(text, label);
+  if (amount && monthlyPrice) {
+    return Math.round((amount / monthlyPrice) * 10) / 10;
+  }
+
+  return undefined;
+}
+
+function extractAmountAfter(text: string, label: string): number | undefined {
+  const match = text.match(new RegExp(`${label}\\s*:?\\s*(?:de\\s*)?${AMOUNT}`));
+  if (!match) return undefined;
+
+  // Small bare numbers are month counts, not amounts
+  return extractFcfaAmounts(match[1], 1000)[0]?.value;
+}
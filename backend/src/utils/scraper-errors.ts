@@ -0,0 +1,63 @@
+import axios from 'axios';
+import { ScraperErrorKind } from '@prisma/client';
+
+export class ScraperError extends Error {
+  constructor(
+    message: string,
+    public kind: ScraperErrorKind,
+    public status?: number,
+    public retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'ScraperError';
+  }
+
+  /**
+   * Worth trying again in a moment; a missing or private group will not come back by itself
+   */
+  get retryable(): boolean {
+    return this.kind === 'RATE_LIMITED' || this.kind === 'UPSTREAM' || this.kind === 'NETWORK';
+  }
+}
+
+/**
+ * Turn any error thrown by the scraper HTTP client into a ScraperError
+ */
+export function classifyScraperError(error: unknown): ScraperError {
+  if (error instanceof ScraperError) {
+    return error;
+  }
+  if (!axios.isAxiosError(error)) {
+    return new ScraperError(error instanceof Error ? error.message : String(error), 'UNKNOWN');
+  }
+
+  const status = error.response?.status;
+  const detail = error.response?.data?.message || error.message;
+
+  if (!status) {
+    return new ScraperError(`Network error: ${error.code || error.message}`, 'NETWORK');
+  }
+  if (status === 429) {
+    return new ScraperError(`Rate limited: ${detail}`, 'RATE_LIMITED', status, parseRetryAfter(error.response?.headers?.['retry-after']));
+  }
+  if (status === 404 || status === 403) {
+    return new ScraperError(`Not found or private: ${detail}`, 'NOT_FOUND', status);
+  }
+  if (status >= 500) {
+    return new ScraperError(`Upstream error ${status}: ${detail}`, 'UPSTREAM', status, parseRetryAfter(error.response?.headers?.['retry-after']));
+  }
+  return new ScraperError(`HTTP ${status}: ${detail}`, 'UNKNOWN', status);
+}
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date
+ */
+function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,12 @@
+/**
+ * Lowercase, strip accents and collapse whitespace so that
+ * "Akébé", "AKEBE" and " akebe " compare equal
+ */
+export function normalizeText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -4,6 +4,10 @@ import Dashboard from './pages/Dashboard'
 import Users from './pages/Users'
 import Listings from './pages/Listings'
 import Groups from './pages/Groups'
+import RiskReview from './pages/RiskReview'
+import Authors from './pages/Authors'
+import Discovery from './pages/Discovery'
+import SavedSearches from './pages/SavedSearches'
 
 function App() {
   return (
@@ -13,6 +17,10 @@ function App() {
         <Route path="/users" element={<Users />} />
         <Route path="/listings" element={<Listings />} />
         <Route path="/groups" element={<Groups />} />
+        <Route path="/discovery" element={<Discovery />} />
+        <Route path="/searches" element={<SavedSearches />} />
+        <Route path="/risk" element={<RiskReview />} />
+        <Route path="/authors" element={<Authors />} />
       </Routes>
     </Layout>
   )
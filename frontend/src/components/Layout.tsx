@@ -6,14 +6,22 @@ import {
   Settings, 
   LogOut,
   Facebook,
-  Activity
+  Activity,
+  ShieldAlert,
+  Building2,
+  Compass,
+  Search
 } from 'lucide-react'
 
 const navigation = [
   { name: 'Dashboard', href: '/', icon: LayoutDashboard },
   { name: 'Utilisateurs', href: '/users', icon: Users },
   { name: 'Annonces', href: '/listings', icon: Home },
+  { name: 'Suspectes', href: '/risk', icon: ShieldAlert },
+  { name: 'Annonceurs', href: '/authors', icon: Building2 },
   { name: 'Groupes FB', href: '/groups', icon: Facebook },
+  { name: 'Découverte', href: '/discovery', icon: Compass },
+  { name: 'Recherches', href: '/searches', icon: Search },
   { name: 'Paramètres', href: '/settings', icon: Settings },
 ]
 
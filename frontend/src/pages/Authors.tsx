@@ -0,0 +1,160 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Search, RefreshCw, Building2, User as UserIcon, HelpCircle } from 'lucide-react'
+import { api } from '../services/api'
+import { AUTHOR_KIND_LABELS, type AuthorKind, type AuthorProfile } from '../types'
+
+const KIND_STYLES: Record<AuthorKind, string> = {
+  AGENCY: 'bg-blue-100 text-blue-800',
+  OWNER: 'bg-green-100 text-green-800',
+  UNKNOWN: 'bg-gray-100 text-gray-700',
+}
+
+const KIND_ICONS = {
+  AGENCY: Building2,
+  OWNER: UserIcon,
+  UNKNOWN: HelpCircle,
+}
+
+export default function Authors() {
+  const [searchTerm, setSearchTerm] = useState('')
+  const [kind, setKind] = useState('')
+  const queryClient = useQueryClient()
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['authors', searchTerm, kind],
+    queryFn: () => api.get(`/admin/authors?search=${encodeURIComponent(searchTerm)}&kind=${kind}`).then(res => res.data),
+  })
+
+  const updateKind = useMutation({
+    mutationFn: ({ authorId, kind }: { authorId: string; kind: AuthorKind | null }) =>
+      api.put(`/admin/authors/${authorId}`, { kind }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['authors'] }),
+  })
+
+  const rebuild = useMutation({
+    mutationFn: () => api.post('/admin/authors/rebuild'),
+  })
+
+  const authors: AuthorProfile[] = data?.authors || []
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Annonceurs</h1>
+          <p className="text-gray-500 mt-1">Agences et propriétaires publiant dans les groupes ({data?.pagination?.total || 0})</p>
+        </div>
+        <button
+          onClick={() => rebuild.mutate()}
+          disabled={rebuild.isPending}
+          className="flex items-center px-4 py-2 border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 mr-2 ${rebuild.isPending ? 'animate-spin' : ''}`} />
+          Recalculer les profils
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm p-4 border border-gray-100">
+        <div className="flex flex-col md:flex-row gap-4">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+            <input
+              type="text"
+              placeholder="Nom ou numéro..."
+              className="w-full pl-10 pr-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+          <select
+            className="px-4 py-2 border border-gray-200 rounded-lg"
+            value={kind}
+            onChange={(e) => setKind(e.target.value)}
+          >
+            <option value="">Tous</option>
+            {Object.entries(AUTHOR_KIND_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Annonceur</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Annonces</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Groupes</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Contacts</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Dernière annonce</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {authors.map((author) => {
+                const KindIcon = KIND_ICONS[author.kind]
+                const validShare = author.totalPosts > 0 ? Math.round((author.validPosts / author.totalPosts) * 100) : 0
+                return (
+                  <tr key={author.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <div className="font-medium text-gray-900">{author.name || 'Inconnu'}</div>
+                      <div className="text-xs text-gray-500">{author.authorId}</div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      {author.totalPosts}
+                      <span className="text-xs text-gray-500 ml-1">({validShare}% valides)</span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{author.groupIds.length}</td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{author.phones.join(', ') || '-'}</td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      {author.lastPostAt ? new Date(author.lastPostAt).toLocaleDateString('fr-FR') : '-'}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center space-x-2">
+                        <span
+                          className={`flex items-center text-xs font-semibold px-2 py-1 rounded-full ${KIND_STYLES[author.kind]}`}
+                          title={author.kindSignals
+                            ? `${author.kindSignals.agencyPosts} annonces type agence, ${author.kindSignals.ownerPosts} type propriétaire`
+                            : undefined}
+                        >
+                          <KindIcon className="w-3 h-3 mr-1" />
+                          {AUTHOR_KIND_LABELS[author.kind]}
+                        </span>
+                        <select
+                          className="text-xs px-2 py-1 border border-gray-200 rounded"
+                          value={author.kindSetByAdmin ? author.kind : ''}
+                          onChange={(e) => updateKind.mutate({
+                            authorId: author.authorId,
+                            kind: e.target.value ? e.target.value as AuthorKind : null,
+                          })}
+                        >
+                          <option value="">Auto</option>
+                          {Object.entries(AUTHOR_KIND_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+
+          {authors.length === 0 && (
+            <div className="text-center py-12 text-gray-500">
+              Aucun annonceur trouvé
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
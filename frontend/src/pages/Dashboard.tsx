@@ -8,9 +8,11 @@ import {
   Activity,
   Play,
   Brain,
-  Heart
+  Heart,
+  Filter,
+  Gauge
 } from 'lucide-react'
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
 import { api } from '../services/api.ts'
 
 const chartData = [
@@ -23,6 +25,12 @@ const chartData = [
   { name: 'Dim', annonces: 210, matchs: 95 },
 ]
 
+const BUDGET_STATUS: Record<string, { label: string; className: string }> = {
+  OK: { label: 'Budget OK', className: 'bg-green-50 text-green-700' },
+  AT_RISK: { label: 'Budget menacé : groupes secondaires en pause', className: 'bg-orange-50 text-orange-700' },
+  EXHAUSTED: { label: 'Quota épuisé : scraping suspendu', className: 'bg-red-50 text-red-700' },
+}
+
 export default function Dashboard() {
   const { data: stats, isLoading } = useQuery({
     queryKey: ['dashboard'],
@@ -145,6 +153,108 @@ export default function Dashboard() {
         ))}
       </div>
 
+      {/* Pre-classifier */}
+      {stats?.preClassifier && (
+        <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+              <Filter className="w-5 h-5 mr-2 text-gray-500" />
+              Pré-classification
+            </h3>
+            <button
+              onClick={() => handleTriggerAction('train-classifier')}
+              className="text-sm text-primary-600 hover:text-primary-800"
+            >
+              Ré-entraîner le modèle
+            </button>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <p className="text-gray-500">Envoyées à l'IA</p>
+              <p className="text-xl font-bold text-green-600">{stats.preClassifier.passed.toLocaleString()}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Écartées</p>
+              <p className="text-xl font-bold text-red-600">{stats.preClassifier.rejected.toLocaleString()}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Score moyen (seuil {stats.preClassifier.threshold})</p>
+              <p className="text-xl font-bold text-gray-900">{stats.preClassifier.avgScore.toFixed(2)}</p>
+            </div>
+            <div>
+              <p className="text-gray-500">Modèle</p>
+              <p className="text-sm font-medium text-gray-900">
+                {stats.preClassifier.model
+                  ? `${stats.preClassifier.model.samples} annonces • ${new Date(stats.preClassifier.model.trainedAt).toLocaleDateString('fr-FR')}`
+                  : 'Mots-clés uniquement'}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* RapidAPI usage */}
+      {stats?.apiUsage && (
+        <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+              <Gauge className="w-5 h-5 mr-2 text-gray-500" />
+              Quota RapidAPI
+            </h3>
+            <span className={`text-sm px-3 py-1 rounded-full ${BUDGET_STATUS[stats.apiUsage.budgetStatus].className}`}>
+              {BUDGET_STATUS[stats.apiUsage.budgetStatus].label}
+            </span>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <p className="text-gray-500">Aujourd'hui</p>
+              <p className="text-xl font-bold text-gray-900">{stats.apiUsage.today.toLocaleString()}</p>
+              {stats.apiUsage.rateLimitedToday > 0 && (
+                <p className="text-xs text-red-600">{stats.apiUsage.rateLimitedToday} refus (429)</p>
+              )}
+            </div>
+            <div>
+              <p className="text-gray-500">Ce mois</p>
+              <p className="text-xl font-bold text-gray-900">
+                {stats.apiUsage.month.toLocaleString()}
+                {stats.apiUsage.monthlyLimit && (
+                  <span className="text-sm font-normal text-gray-500"> / {stats.apiUsage.monthlyLimit.toLocaleString()}</span>
+                )}
+              </p>
+            </div>
+            <div>
+              <p className="text-gray-500">Projection fin de mois</p>
+              <p className={`text-xl font-bold ${stats.apiUsage.budgetStatus === 'OK' ? 'text-gray-900' : 'text-orange-600'}`}>
+                {stats.apiUsage.projectedMonthEnd.toLocaleString()}
+              </p>
+            </div>
+            <div>
+              <p className="text-gray-500">Restant (RapidAPI)</p>
+              <p className="text-xl font-bold text-gray-900">{stats.apiUsage.remaining?.toLocaleString() ?? '-'}</p>
+            </div>
+          </div>
+          {stats.apiUsage.monthlyLimit && (
+            <div className="mt-4 h-2 bg-gray-100 rounded-full overflow-hidden">
+              <div
+                className={`h-full ${stats.apiUsage.budgetStatus === 'OK' ? 'bg-primary-600' : 'bg-orange-500'}`}
+                style={{ width: `${Math.min(100, (stats.apiUsage.month / stats.apiUsage.monthlyLimit) * 100)}%` }}
+              />
+            </div>
+          )}
+          {stats.apiUsage.daily.length > 0 && (
+            <ResponsiveContainer width="100%" height={160} className="mt-4">
+              <BarChart data={stats.apiUsage.daily}>
+                <XAxis dataKey="date" stroke="#6b7280" tickFormatter={(date: string) => date.substring(8)} />
+                <YAxis stroke="#6b7280" />
+                <Tooltip contentStyle={{ backgroundColor: '#fff', borderRadius: '8px', border: '1px solid #e5e7eb' }} />
+                <Bar dataKey="requests" fill="#3b82f6" name="Requêtes" />
+                <Bar dataKey="failures" fill="#ef4444" name="Échecs" />
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+      )}
+
       {/* Charts */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="bg-white rounded-xl shadow-sm p-6 border border-gray-100">
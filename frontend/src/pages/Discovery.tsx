@@ -0,0 +1,265 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Compass, Plus, X, Play, Users, ExternalLink, Check, EyeOff } from 'lucide-react'
+import { api } from '../services/api'
+import type { CandidateStatus, DiscoveryQuery, GroupCandidate } from '../types'
+
+const STATUS_TABS: Array<{ value: CandidateStatus; label: string }> = [
+  { value: 'NEW', label: 'À examiner' },
+  { value: 'ADDED', label: 'Ajoutés' },
+  { value: 'DISMISSED', label: 'Ignorés' },
+]
+
+export default function Discovery() {
+  const [city, setCity] = useState('')
+  const [query, setQuery] = useState('')
+  const [cityFilter, setCityFilter] = useState('')
+  const [status, setStatus] = useState<CandidateStatus>('NEW')
+  const queryClient = useQueryClient()
+
+  const { data: queries = [] } = useQuery<DiscoveryQuery[]>({
+    queryKey: ['discovery-queries'],
+    queryFn: () => api.get('/admin/discovery/queries').then(res => res.data),
+  })
+
+  const runDiscovery = useMutation({
+    mutationFn: (city?: string) => api.post('/admin/discovery/run', { city }),
+  })
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['group-candidates', status, cityFilter],
+    queryFn: () => api.get(`/admin/discovery/candidates?status=${status}&city=${encodeURIComponent(cityFilter)}`).then(res => res.data),
+    // Candidates come in while the discovery runs in background
+    refetchInterval: runDiscovery.isSuccess ? 15000 : false,
+  })
+
+  const addQuery = useMutation({
+    mutationFn: () => api.post('/admin/discovery/queries', { city: city.trim(), query: query.trim() || undefined }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['discovery-queries'] })
+      setQuery('')
+    },
+  })
+
+  const toggleQuery = useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) => api.put(`/admin/discovery/queries/${id}`, { isActive }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['discovery-queries'] }),
+  })
+
+  const deleteQuery = useMutation({
+    mutationFn: (id: string) => api.delete(`/admin/discovery/queries/${id}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['discovery-queries'] }),
+  })
+
+  const addCandidate = useMutation({
+    mutationFn: (id: string) => api.post(`/admin/discovery/candidates/${id}/add`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['group-candidates'] })
+      queryClient.invalidateQueries({ queryKey: ['groups'] })
+    },
+  })
+
+  const dismissCandidate = useMutation({
+    mutationFn: (id: string) => api.post(`/admin/discovery/candidates/${id}/dismiss`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['group-candidates'] }),
+  })
+
+  const cities = Array.from(new Set(queries.map(q => q.city)))
+  const candidates: GroupCandidate[] = data?.candidates || []
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Découverte de groupes</h1>
+          <p className="text-gray-500 mt-1">Groupes trouvés par les recherches enregistrées, classés par part d'annonces immobilières</p>
+        </div>
+        <button
+          onClick={() => runDiscovery.mutate(cityFilter || undefined)}
+          disabled={runDiscovery.isPending || queries.length === 0}
+          className="flex items-center bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+        >
+          <Play className="w-4 h-4 mr-2" />
+          {cityFilter ? `Lancer pour ${cityFilter}` : 'Lancer la découverte'}
+        </button>
+      </div>
+
+      {runDiscovery.isSuccess && (
+        <div className="p-3 rounded-lg bg-blue-50 text-blue-800 text-sm">
+          Découverte en cours : les groupes apparaissent au fur et à mesure de l'échantillonnage.
+        </div>
+      )}
+
+      {/* Saved queries */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-4">
+        <h2 className="text-lg font-semibold text-gray-900">Recherches enregistrées</h2>
+        <div className="flex flex-col md:flex-row gap-3">
+          <input
+            type="text"
+            className="md:w-48 px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            placeholder="Ville"
+            value={city}
+            onChange={(e) => setCity(e.target.value)}
+          />
+          <input
+            type="text"
+            className="flex-1 px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            placeholder="Recherche (vide = recherches par défaut : location, maison à vendre...)"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && city.trim() && addQuery.mutate()}
+          />
+          <button
+            onClick={() => addQuery.mutate()}
+            disabled={!city.trim() || addQuery.isPending}
+            className="flex items-center justify-center px-4 py-2 border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Ajouter
+          </button>
+        </div>
+
+        {cities.length === 0 ? (
+          <p className="text-sm text-gray-500">Aucune recherche enregistrée. Ajoutez une ville pour commencer.</p>
+        ) : (
+          <div className="space-y-3">
+            {cities.map(cityName => (
+              <div key={cityName} className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium text-gray-700 w-32">{cityName}</span>
+                {queries.filter(q => q.city === cityName).map(q => (
+                  <span
+                    key={q.id}
+                    className={`flex items-center text-xs px-2.5 py-1 rounded-full ${q.isActive ? 'bg-primary-50 text-primary-700' : 'bg-gray-100 text-gray-400 line-through'}`}
+                    title={q.lastRunAt ? `${q.lastResultCount ?? 0} groupe(s) le ${new Date(q.lastRunAt).toLocaleDateString('fr-FR')}` : 'Jamais lancée'}
+                  >
+                    <button onClick={() => toggleQuery.mutate({ id: q.id, isActive: !q.isActive })}>{q.query}</button>
+                    <button onClick={() => deleteQuery.mutate(q.id)} className="ml-1.5 hover:text-red-600">
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Candidates */}
+      <div className="bg-white rounded-xl shadow-sm p-4 border border-gray-100">
+        <div className="flex flex-col md:flex-row gap-4 md:items-center md:justify-between">
+          <div className="flex gap-2">
+            {STATUS_TABS.map(tab => (
+              <button
+                key={tab.value}
+                onClick={() => setStatus(tab.value)}
+                className={`px-3 py-1.5 text-sm rounded-lg ${status === tab.value ? 'bg-primary-600 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+          <select
+            className="px-4 py-2 border border-gray-200 rounded-lg"
+            value={cityFilter}
+            onChange={(e) => setCityFilter(e.target.value)}
+          >
+            <option value="">Toutes les villes</option>
+            {cities.map(cityName => (
+              <option key={cityName} value={cityName}>{cityName}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Groupe</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Membres</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Annonces</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Activité</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Score</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {candidates.map(candidate => (
+                <tr key={candidate.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4">
+                    <div className="flex items-center font-medium text-gray-900">
+                      {candidate.name}
+                      {candidate.url && (
+                        <a href={candidate.url} target="_blank" rel="noopener noreferrer" className="ml-1.5 text-gray-400 hover:text-primary-600">
+                          <ExternalLink className="w-3.5 h-3.5" />
+                        </a>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">{candidate.cities.join(', ')} · {candidate.queries.join(' / ')}</div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    {candidate.membersCount != null && (
+                      <span className="flex items-center"><Users className="w-3.5 h-3.5 mr-1" />{candidate.membersCount.toLocaleString('fr-FR')}</span>
+                    )}
+                    {candidate.privacy && <span className="text-xs text-gray-400">{candidate.privacy}</span>}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    {candidate.sampleError ? (
+                      <span className="text-xs text-amber-600" title={candidate.sampleError}>Posts inaccessibles</span>
+                    ) : candidate.keywordDensity != null ? (
+                      <>
+                        {Math.round(candidate.keywordDensity * 100)} %
+                        <span className="text-xs text-gray-500 ml-1">de {candidate.sampledPosts} posts</span>
+                      </>
+                    ) : (
+                      <span className="text-xs text-gray-400">Pas encore échantillonné</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    {candidate.postsPerDay != null ? `${candidate.postsPerDay} posts/jour` : '-'}
+                  </td>
+                  <td className="px-6 py-4 text-sm font-semibold text-gray-900">
+                    {candidate.score != null ? Math.round(candidate.score * 100) : '-'}
+                  </td>
+                  <td className="px-6 py-4">
+                    {candidate.status === 'NEW' && (
+                      <div className="flex items-center justify-end gap-2">
+                        <button
+                          onClick={() => addCandidate.mutate(candidate.id)}
+                          disabled={addCandidate.isPending}
+                          className="flex items-center px-3 py-1.5 bg-primary-600 text-white text-sm rounded-lg hover:bg-primary-700 disabled:opacity-50"
+                        >
+                          <Check className="w-4 h-4 mr-1" />
+                          Surveiller
+                        </button>
+                        <button
+                          onClick={() => dismissCandidate.mutate(candidate.id)}
+                          className="p-1.5 text-gray-400 hover:text-gray-600"
+                          title="Ignorer"
+                        >
+                          <EyeOff className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {candidates.length === 0 && (
+            <div className="text-center py-12 text-gray-500">
+              <Compass className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+              Aucun groupe {status === 'NEW' ? 'à examiner' : status === 'ADDED' ? 'ajouté' : 'ignoré'}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
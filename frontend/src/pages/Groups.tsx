@@ -1,7 +1,9 @@
 import { useState } from 'react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { Facebook, Trash2, CheckCircle, XCircle, Plus, Link, X, Tag, Search, Loader2, Users, RefreshCw, ExternalLink, ChevronDown, ChevronUp, Image, Edit3, Save } from 'lucide-react'
+import { Facebook, Trash2, CheckCircle, XCircle, Plus, Link, X, Tag, Search, Loader2, Users, RefreshCw, ExternalLink, ChevronDown, ChevronUp, Image, Edit3, Save, AlertTriangle, History, HeartPulse } from 'lucide-react'
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts'
 import { api } from '../services/api'
+import { GROUP_HEALTH_LABELS, SCRAPER_ERROR_KIND_LABELS, type GroupHealthIssue, type GroupHealthStatus, type ScraperErrorKind, type ScrapeRun, type ScrapeRunDay } from '../types'
 
 interface Group {
   id: string
@@ -12,8 +14,27 @@ interface Group {
   isActive: boolean
   priority: number
   lastScrapedAt?: string
+  lastSeenPostAt?: string
+  nextScrapeAt?: string
+  scrapeIntervalMinutes?: number
+  postsPerDay?: number
   totalPosts?: number
   validPosts?: number
+  consecutiveFailures: number
+  circuitOpenUntil?: string
+  lastErrorKind?: ScraperErrorKind
+  lastError?: string
+  lastErrorAt?: string
+  healthScore?: number
+  healthStatus?: GroupHealthStatus
+  healthIssues?: GroupHealthIssue[]
+  healthCheckedAt?: string
+}
+
+const HEALTH_STYLES: Record<GroupHealthStatus, string> = {
+  HEALTHY: 'bg-green-100 text-green-800',
+  WARNING: 'bg-amber-100 text-amber-800',
+  UNHEALTHY: 'bg-red-100 text-red-800',
 }
 
 interface SearchResult {
@@ -65,6 +86,76 @@ function extractGroupId(input: string): string {
   return trimmed
 }
 
+function RunsChart({ daily, height }: { daily: ScrapeRunDay[]; height: number }) {
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <BarChart data={daily}>
+        <XAxis dataKey="date" stroke="#6b7280" tickFormatter={(date: string) => date.substring(8)} />
+        <YAxis stroke="#6b7280" />
+        <Tooltip labelFormatter={(date) => new Date(String(date)).toLocaleDateString('fr-FR')} />
+        <Bar dataKey="newPosts" stackId="posts" fill="#10b981" name="Nouveaux" />
+        <Bar dataKey="duplicates" stackId="posts" fill="#3b82f6" name="Déjà vus" />
+        <Bar dataKey="keywordFiltered" stackId="posts" fill="#d1d5db" name="Hors mots-clés" />
+        <Bar dataKey="errors" fill="#ef4444" name="Erreurs" />
+      </BarChart>
+    </ResponsiveContainer>
+  )
+}
+
+function GroupRuns({ groupId }: { groupId: string }) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['group-runs', groupId],
+    queryFn: () => api.get(`/admin/groups/${groupId}/runs?limit=10`).then(res => res.data),
+  })
+
+  if (isLoading) {
+    return <div className="flex justify-center py-4"><Loader2 className="w-5 h-5 animate-spin text-gray-400" /></div>
+  }
+
+  const runs: ScrapeRun[] = data?.runs || []
+  if (runs.length === 0) {
+    return <p className="text-sm text-gray-500 py-4 text-center">Aucun scan enregistré</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      <RunsChart daily={data.daily} height={140} />
+      <table className="w-full text-xs">
+        <thead className="text-gray-500">
+          <tr>
+            <th className="text-left py-1">Scan</th>
+            <th className="text-right py-1">Pages</th>
+            <th className="text-right py-1">Posts</th>
+            <th className="text-right py-1">Hors mots-clés</th>
+            <th className="text-right py-1">Nouveaux</th>
+            <th className="text-right py-1">Déjà vus</th>
+            <th className="text-right py-1">Appels API</th>
+            <th className="text-right py-1">Durée</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100 text-gray-700">
+          {runs.map(run => (
+            <tr key={run.id} className={run.success ? '' : 'text-red-600'} title={run.error}>
+              <td className="py-1">
+                {new Date(run.startedAt).toLocaleString('fr-FR', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                {run.trigger === 'MANUAL' && <span className="ml-1 text-gray-400">(manuel)</span>}
+                {!run.success && run.errorKind && <span className="ml-1">— {SCRAPER_ERROR_KIND_LABELS[run.errorKind]}</span>}
+              </td>
+              <td className="text-right py-1">{run.pagesFetched}</td>
+              <td className="text-right py-1">{run.postsFetched}</td>
+              <td className="text-right py-1">{run.keywordFiltered}</td>
+              <td className="text-right py-1">{run.newPosts}</td>
+              <td className="text-right py-1">{run.duplicates}</td>
+              <td className="text-right py-1">{run.apiCalls}</td>
+              <td className="text-right py-1">{(run.durationMs / 1000).toFixed(1)} s</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
 export default function Groups() {
   const [showAddForm, setShowAddForm] = useState(false)
   const [groupInput, setGroupInput] = useState('')
@@ -83,6 +174,8 @@ export default function Groups() {
   const [scanningGroupId, setScanningGroupId] = useState<string | null>(null)
   const [scanResults, setScanResults] = useState<Record<string, ScrapeResult>>({})
   const [expandedGroup, setExpandedGroup] = useState<string | null>(null)
+  const [historyGroupId, setHistoryGroupId] = useState<string | null>(null)
+  const [unhealthyOnly, setUnhealthyOnly] = useState(false)
 
   // Edit keywords state
   const [editingGroupId, setEditingGroupId] = useState<string | null>(null)
@@ -96,6 +189,24 @@ export default function Groups() {
   })
 
   const groups: Group[] = Array.isArray(groupsData) ? groupsData : groupsData?.groups || []
+  const unhealthyCount = groups.filter(g => g.healthStatus && g.healthStatus !== 'HEALTHY').length
+  const visibleGroups = unhealthyOnly ? groups.filter(g => g.healthStatus && g.healthStatus !== 'HEALTHY') : groups
+
+  const { data: runsData } = useQuery({
+    queryKey: ['scrape-runs'],
+    queryFn: () => api.get('/admin/scrape-runs?limit=1').then(res => res.data),
+  })
+
+  const runDays: ScrapeRunDay[] = runsData?.daily || []
+  const runTotals = runDays.reduce(
+    (totals, day) => ({
+      runs: totals.runs + day.runs,
+      failedRuns: totals.failedRuns + day.failedRuns,
+      newPosts: totals.newPosts + day.newPosts,
+      apiCalls: totals.apiCalls + day.apiCalls,
+    }),
+    { runs: 0, failedRuns: 0, newPosts: 0, apiCalls: 0 },
+  )
 
   const addGroup = useMutation({
     mutationFn: (group: any) => api.post('/admin/groups', group),
@@ -123,6 +234,11 @@ export default function Groups() {
     onSuccess: () => queryClient.invalidateQueries({ queryKey: ['groups'] }),
   })
 
+  const checkHealth = useMutation({
+    mutationFn: () => api.post('/admin/groups/health'),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['groups'] }),
+  })
+
   const updateGroupKeywords = useMutation({
     mutationFn: ({ id, keywords }: { id: string; keywords: string[] }) =>
       api.put(`/admin/groups/${id}`, { keywords }),
@@ -181,6 +297,8 @@ export default function Groups() {
       setScanResults(prev => ({ ...prev, [groupId]: res.data }))
       setExpandedGroup(groupId)
       queryClient.invalidateQueries({ queryKey: ['groups'] })
+      queryClient.invalidateQueries({ queryKey: ['scrape-runs'] })
+      queryClient.invalidateQueries({ queryKey: ['group-runs', groupId] })
     } catch {
       setScanResults(prev => ({
         ...prev,
@@ -343,6 +461,51 @@ export default function Groups() {
         </div>
       )}
 
+      {/* Scrape activity */}
+      {runTotals.runs > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">Activité du scraping (14 jours)</h2>
+            <div className="flex gap-4 text-sm text-gray-500">
+              <span>{runTotals.runs} scans</span>
+              {runTotals.failedRuns > 0 && <span className="text-red-600">{runTotals.failedRuns} en échec</span>}
+              <span>{runTotals.newPosts} nouveaux posts</span>
+              <span>{runTotals.apiCalls} appels API</span>
+            </div>
+          </div>
+          <RunsChart daily={runDays} height={200} />
+        </div>
+      )}
+
+      {/* Groups health */}
+      {groups.length > 0 && (
+        <div className="flex items-center justify-between bg-white rounded-xl shadow-sm border border-gray-100 px-6 py-3">
+          <div className="flex items-center text-sm text-gray-600">
+            <HeartPulse className={`w-4 h-4 mr-2 ${unhealthyCount > 0 ? 'text-amber-500' : 'text-green-500'}`} />
+            {unhealthyCount > 0 ? `${unhealthyCount} groupe(s) à surveiller` : 'Tous les groupes sont en bonne santé'}
+          </div>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center text-sm text-gray-600 cursor-pointer">
+              <input
+                type="checkbox"
+                className="mr-2"
+                checked={unhealthyOnly}
+                onChange={(e) => setUnhealthyOnly(e.target.checked)}
+              />
+              Uniquement les groupes à surveiller
+            </label>
+            <button
+              onClick={() => checkHealth.mutate()}
+              disabled={checkHealth.isPending}
+              className="flex items-center text-sm px-3 py-1.5 border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              <RefreshCw className={`w-3.5 h-3.5 mr-1.5 ${checkHealth.isPending ? 'animate-spin' : ''}`} />
+              Recalculer
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Groups List */}
       {isLoading ? (
         <div className="flex items-center justify-center py-12">
@@ -360,7 +523,7 @@ export default function Groups() {
         </div>
       ) : (
         <div className="space-y-6">
-          {groups.map((group: Group) => {
+          {visibleGroups.map((group: Group) => {
             const isScanning = scanningGroupId === group.id
             const result = scanResults[group.id]
             const isExpanded = expandedGroup === group.id
@@ -375,7 +538,17 @@ export default function Groups() {
                         <Facebook className="w-6 h-6 text-blue-600" />
                       </div>
                       <div>
-                        <h3 className="font-semibold text-gray-900">{group.name}</h3>
+                        <div className="flex items-center gap-2">
+                          <h3 className="font-semibold text-gray-900">{group.name}</h3>
+                          {group.healthStatus && (
+                            <span
+                              className={`text-xs font-semibold px-2 py-0.5 rounded-full ${HEALTH_STYLES[group.healthStatus]}`}
+                              title={group.healthCheckedAt ? `Calculé le ${new Date(group.healthCheckedAt).toLocaleDateString('fr-FR')}` : undefined}
+                            >
+                              {GROUP_HEALTH_LABELS[group.healthStatus]}{group.healthScore != null && ` (${Math.round(group.healthScore * 100)})`}
+                            </span>
+                          )}
+                        </div>
                         <p className="text-sm text-gray-500 font-mono">{group.groupId}</p>
                       </div>
                     </div>
@@ -469,14 +642,52 @@ export default function Groups() {
                     )}
                   </div>
 
+                  {group.healthStatus && group.healthStatus !== 'HEALTHY' && group.healthIssues && group.healthIssues.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5 mb-3">
+                      {group.healthIssues.map(issue => (
+                        <span key={issue.code} className="text-xs bg-amber-50 text-amber-800 px-2 py-0.5 rounded">{issue.label}</span>
+                      ))}
+                    </div>
+                  )}
+
+                  {group.consecutiveFailures > 0 && group.lastErrorKind && (
+                    <div
+                      className={`flex items-center mb-3 p-2 rounded-lg text-xs ${group.circuitOpenUntil && new Date(group.circuitOpenUntil) > new Date() ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-800'}`}
+                      title={group.lastError}
+                    >
+                      <AlertTriangle className="w-3.5 h-3.5 mr-1.5 flex-shrink-0" />
+                      {group.circuitOpenUntil && new Date(group.circuitOpenUntil) > new Date()
+                        ? <>En pause jusqu'au {new Date(group.circuitOpenUntil).toLocaleDateString('fr-FR', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })} après {group.consecutiveFailures} échecs : {SCRAPER_ERROR_KIND_LABELS[group.lastErrorKind]}</>
+                        : <>{group.consecutiveFailures} échec(s) consécutif(s) : {SCRAPER_ERROR_KIND_LABELS[group.lastErrorKind]}</>
+                      }
+                    </div>
+                  )}
+
                   <div className="flex items-center justify-between pt-4 border-t border-gray-100">
                     <div className="flex items-center gap-4 text-xs text-gray-500">
                       <span>{group.lastScrapedAt ? `Dernier scan : ${new Date(group.lastScrapedAt).toLocaleDateString('fr-FR', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}` : 'Pas encore scanné'}</span>
+                      {group.isActive && group.nextScrapeAt && (
+                        <span title={group.postsPerDay != null ? `${group.postsPerDay} posts/jour, scan toutes les ${group.scrapeIntervalMinutes} min` : undefined}>
+                          Prochain scan : {new Date(group.nextScrapeAt).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}
+                        </span>
+                      )}
+                      {group.lastSeenPostAt && (
+                        <span title="Le prochain scan s'arrête à ce post">
+                          Dernier post vu : {new Date(group.lastSeenPostAt).toLocaleDateString('fr-FR', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                        </span>
+                      )}
                       {group.totalPosts != null && group.totalPosts > 0 && (
-                        <span>{group.totalPosts} posts</span>
+                        <span>{group.totalPosts} posts{group.validPosts ? ` (${group.validPosts} annonces)` : ''}</span>
                       )}
                     </div>
                     <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => setHistoryGroupId(historyGroupId === group.id ? null : group.id)}
+                        className="flex items-center text-xs text-gray-500 hover:text-primary-600"
+                      >
+                        <History className="w-3.5 h-3.5 mr-1" />
+                        Historique
+                      </button>
                       {result && result.posts.length > 0 && (
                         <button
                           onClick={() => setExpandedGroup(isExpanded ? null : group.id)}
@@ -495,6 +706,12 @@ export default function Groups() {
                     </div>
                   </div>
 
+                  {historyGroupId === group.id && (
+                    <div className="mt-3 p-3 bg-gray-50 rounded-lg">
+                      <GroupRuns groupId={group.id} />
+                    </div>
+                  )}
+
                   {/* Scan result summary */}
                   {result && (
                     <div className={`mt-3 p-3 rounded-lg text-sm ${result.success ? 'bg-emerald-50 text-emerald-800' : 'bg-red-50 text-red-700'}`}>
@@ -1,15 +1,55 @@
 import { useState } from 'react'
-import { useQuery } from '@tanstack/react-query'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { Search, Filter, ExternalLink, CheckCircle, XCircle, Brain } from 'lucide-react'
 import { api } from '../services/api'
+import { AMENITY_LABELS, PROPERTY_TYPE_LABELS, type Amenity, type ListingStatus, type PropertyType } from '../types'
+
+const PRICE_PERIOD_SUFFIXES: Record<string, string> = {
+  NIGHT: ' / nuit',
+  DAY: ' / jour',
+  WEEK: ' / semaine',
+  MONTH: ' / mois',
+  YEAR: ' / an',
+}
+
+const TRANSACTION_LABELS: Record<string, string> = {
+  RENT: 'Location',
+  SALE: 'Vente',
+  COMMERCIAL_LEASE: 'Bail commercial',
+}
+
+const STATUS_LABELS: Record<ListingStatus, string> = {
+  AVAILABLE: 'Disponible',
+  TAKEN: 'Louée / vendue',
+  EXPIRED: 'Expirée',
+  REMOVED: 'Supprimée',
+}
+
+const STATUS_STYLES: Record<ListingStatus, string> = {
+  AVAILABLE: 'bg-green-50 text-green-700',
+  TAKEN: 'bg-gray-100 text-gray-700',
+  EXPIRED: 'bg-orange-100 text-orange-800',
+  REMOVED: 'bg-red-100 text-red-800',
+}
 
 export default function Listings() {
   const [searchTerm, setSearchTerm] = useState('')
   const [filter, setFilter] = useState('all')
+  const [transactionType, setTransactionType] = useState('')
+  const [propertyType, setPropertyType] = useState('')
+  const [hideDuplicates, setHideDuplicates] = useState(true)
+  const [status, setStatus] = useState('')
+  const queryClient = useQueryClient()
   
   const { data: listingsData, isLoading } = useQuery({
-    queryKey: ['listings', searchTerm, filter],
-    queryFn: () => api.get(`/admin/listings?search=${searchTerm}&isValid=${filter === 'valid' ? 'true' : filter === 'invalid' ? 'false' : ''}`).then(res => res.data),
+    queryKey: ['listings', searchTerm, filter, transactionType, propertyType, hideDuplicates, status],
+    queryFn: () => api.get(`/admin/listings?search=${searchTerm}&isValid=${filter === 'valid' ? 'true' : filter === 'invalid' ? 'false' : ''}&transactionType=${transactionType}&propertyType=${propertyType}&hideDuplicates=${hideDuplicates}&status=${status}`).then(res => res.data),
+  })
+
+  const updateStatus = useMutation({
+    mutationFn: ({ id, status }: { id: string; status: ListingStatus }) =>
+      api.put(`/admin/listings/${id}/status`, { status }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['listings'] }),
   })
 
   if (isLoading) {
@@ -53,6 +93,45 @@ export default function Listings() {
             <option value="valid">Validées</option>
             <option value="invalid">Invalides</option>
           </select>
+          <select
+            className="px-4 py-2 border border-gray-200 rounded-lg"
+            value={transactionType}
+            onChange={(e) => setTransactionType(e.target.value)}
+          >
+            <option value="">Location et vente</option>
+            {Object.entries(TRANSACTION_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <select
+            className="px-4 py-2 border border-gray-200 rounded-lg"
+            value={propertyType}
+            onChange={(e) => setPropertyType(e.target.value)}
+          >
+            <option value="">Tous types</option>
+            {Object.entries(PROPERTY_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <select
+            className="px-4 py-2 border border-gray-200 rounded-lg"
+            value={status}
+            onChange={(e) => setStatus(e.target.value)}
+          >
+            <option value="">Tous statuts</option>
+            {Object.entries(STATUS_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <label className="flex items-center px-4 py-2 text-sm text-gray-600 whitespace-nowrap">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={hideDuplicates}
+              onChange={(e) => setHideDuplicates(e.target.checked)}
+            />
+            Masquer les doublons
+          </label>
           <button className="flex items-center px-4 py-2 border border-gray-200 rounded-lg hover:bg-gray-50">
             <Filter className="w-4 h-4 mr-2" />
             Filtres avancés
@@ -77,6 +156,34 @@ export default function Listings() {
                   }`}>
                     {listing.isValid ? 'Valide' : 'Invalide'}
                   </span>
+                  {listing.offerCount && (
+                    <span className="text-xs font-semibold px-2 py-1 rounded-full bg-purple-100 text-purple-800">
+                      {listing.offerCount} offres
+                    </span>
+                  )}
+                  {listing.offerIndex && (
+                    <span className="text-xs font-semibold px-2 py-1 rounded-full bg-purple-100 text-purple-800">
+                      Offre n°{listing.offerIndex}
+                    </span>
+                  )}
+                  {listing.riskReview && listing.riskReview !== 'CLEARED' && (
+                    <span
+                      className="text-xs font-semibold px-2 py-1 rounded-full bg-red-100 text-red-800"
+                      title={listing.riskFactors?.map((factor: { label: string }) => factor.label).join('\n')}
+                    >
+                      {listing.riskReview === 'FRAUD' ? '⛔ Arnaque' : '⚠️ Risque'}
+                    </span>
+                  )}
+                  {listing.canonicalId && (
+                    <span className="text-xs font-semibold px-2 py-1 rounded-full bg-yellow-100 text-yellow-800">
+                      Doublon
+                    </span>
+                  )}
+                  {listing.transactionType && (
+                    <span className="text-xs font-semibold px-2 py-1 rounded-full bg-blue-100 text-blue-800">
+                      {TRANSACTION_LABELS[listing.transactionType]}
+                    </span>
+                  )}
                 </div>
                 {listing.aiEnriched && (
                   <span className="flex items-center text-xs text-purple-600 bg-purple-50 px-2 py-1 rounded-full">
@@ -92,13 +199,31 @@ export default function Listings() {
 
               <div className="space-y-2 text-sm text-gray-600">
                 {listing.price && (
-                  <p className="font-semibold text-primary-600">{listing.price.toLocaleString()} FCFA</p>
+                  <p className="font-semibold text-primary-600">
+                    {listing.price.toLocaleString()} FCFA{listing.pricePeriod ? PRICE_PERIOD_SUFFIXES[listing.pricePeriod] : ''}
+                  </p>
+                )}
+                {listing.moveInCost && (
+                  <p title={`Caution ${listing.depositMonths ?? '?'} mois, avance ${listing.advanceMonths ?? '?'} mois, frais d'agence ${listing.agencyFee?.toLocaleString() ?? '?'} FCFA`}>
+                    💳 Entrée : {listing.moveInCost.toLocaleString()} FCFA
+                  </p>
                 )}
+                {listing.propertyType && <p>🏠 {PROPERTY_TYPE_LABELS[listing.propertyType as PropertyType]}</p>}
                 {listing.location && <p>📍 {listing.location}</p>}
                 {listing.surface && <p>📐 {listing.surface}m²</p>}
                 {listing.rooms && <p>🚪 {listing.rooms} pièces</p>}
               </div>
 
+              {listing.amenities?.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-3">
+                  {listing.amenities.map((amenity: Amenity) => (
+                    <span key={amenity} className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+                      {AMENITY_LABELS[amenity]}
+                    </span>
+                  ))}
+                </div>
+              )}
+
               <p className="text-sm text-gray-500 mt-4 line-clamp-3">
                 {listing.originalText?.substring(0, 150)}...
               </p>
@@ -106,8 +231,19 @@ export default function Listings() {
               <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-100">
                 <span className="text-xs text-gray-500">
                   {listing._count?.matches || 0} matchs
+                  {listing._count?.duplicates > 0 && ` • ${listing._count.duplicates} doublons`}
                 </span>
-                <div className="flex space-x-2">
+                <div className="flex items-center space-x-2">
+                  <select
+                    className={`text-xs px-2 py-1 rounded-full border-0 ${STATUS_STYLES[(listing.status || 'AVAILABLE') as ListingStatus]}`}
+                    value={listing.status || 'AVAILABLE'}
+                    title={listing.statusReason || undefined}
+                    onChange={(e) => updateStatus.mutate({ id: listing.id, status: e.target.value as ListingStatus })}
+                  >
+                    {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
                   <button className="text-primary-600 hover:text-primary-800">
                     <ExternalLink className="w-4 h-4" />
                   </button>
@@ -0,0 +1,137 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { ShieldAlert, ShieldCheck, ShieldX, ExternalLink } from 'lucide-react'
+import { api } from '../services/api'
+import { PROPERTY_TYPE_LABELS, type Listing, type RiskReview as RiskReviewStatus } from '../types'
+
+const STATUS_LABELS: Record<RiskReviewStatus, string> = {
+  PENDING: 'À vérifier',
+  CLEARED: 'Validées',
+  FRAUD: 'Arnaques',
+}
+
+export default function RiskReview() {
+  const [status, setStatus] = useState<RiskReviewStatus>('PENDING')
+  const queryClient = useQueryClient()
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['risk-queue', status],
+    queryFn: () => api.get(`/admin/risk/queue?status=${status}`).then(res => res.data),
+  })
+
+  const review = useMutation({
+    mutationFn: ({ id, decision }: { id: string; decision: 'CLEARED' | 'FRAUD' }) =>
+      api.post(`/admin/listings/${id}/risk-review`, { decision }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['risk-queue'] })
+      queryClient.invalidateQueries({ queryKey: ['listings'] })
+    },
+  })
+
+  if (isLoading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+      </div>
+    )
+  }
+
+  const listings: Listing[] = data?.listings || []
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Annonces suspectes</h1>
+          <p className="text-gray-500 mt-1">
+            Annonces retenues avant envoi aux utilisateurs ({data?.pagination?.total || 0})
+          </p>
+        </div>
+        <select
+          className="px-4 py-2 border border-gray-200 rounded-lg"
+          value={status}
+          onChange={(e) => setStatus(e.target.value as RiskReviewStatus)}
+        >
+          {Object.entries(STATUS_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-4">
+        {listings.map((listing) => (
+          <div key={listing.id} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+            <div className="flex items-start justify-between gap-6">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center space-x-2 mb-2">
+                  <ShieldAlert className="w-5 h-5 text-red-500" />
+                  <span className="text-xs font-semibold px-2 py-1 rounded-full bg-red-100 text-red-800">
+                    Risque {Math.round((listing.riskScore || 0) * 100)}%
+                  </span>
+                  {listing.propertyType && (
+                    <span className="text-xs text-gray-500">{PROPERTY_TYPE_LABELS[listing.propertyType]}</span>
+                  )}
+                  {listing.location && <span className="text-xs text-gray-500">📍 {listing.location}</span>}
+                  {listing.price && (
+                    <span className="text-xs font-semibold text-primary-600">{listing.price.toLocaleString()} FCFA</span>
+                  )}
+                </div>
+
+                <ul className="space-y-1 mb-3">
+                  {listing.riskFactors?.map((factor) => (
+                    <li key={factor.code} className="text-sm text-red-700">
+                      ⚠️ {factor.label}
+                    </li>
+                  ))}
+                </ul>
+
+                <p className="text-sm text-gray-600 whitespace-pre-line line-clamp-6">{listing.originalText}</p>
+                {listing.contact && <p className="text-sm text-gray-500 mt-2">📞 {listing.contact}</p>}
+              </div>
+
+              <div className="flex flex-col space-y-2 shrink-0">
+                {listing.riskReview !== 'CLEARED' && (
+                  <button
+                    onClick={() => review.mutate({ id: listing.id, decision: 'CLEARED' })}
+                    disabled={review.isPending}
+                    className="flex items-center px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                  >
+                    <ShieldCheck className="w-4 h-4 mr-2" />
+                    Légitime
+                  </button>
+                )}
+                {listing.riskReview !== 'FRAUD' && (
+                  <button
+                    onClick={() => review.mutate({ id: listing.id, decision: 'FRAUD' })}
+                    disabled={review.isPending}
+                    className="flex items-center px-4 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+                  >
+                    <ShieldX className="w-4 h-4 mr-2" />
+                    Arnaque
+                  </button>
+                )}
+                {listing.postUrl && (
+                  <a
+                    href={listing.postUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center px-4 py-2 text-sm border border-gray-200 rounded-lg hover:bg-gray-50"
+                  >
+                    <ExternalLink className="w-4 h-4 mr-2" />
+                    Voir le post
+                  </a>
+                )}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {listings.length === 0 && (
+        <div className="text-center py-12 text-gray-500">
+          Aucune annonce dans cette file
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,270 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Search, Plus, Play, Trash2, CheckCircle, XCircle, History, Loader2, AlertTriangle } from 'lucide-react'
+import { api } from '../services/api'
+import {
+  SAVED_SEARCH_SCOPE_LABELS,
+  SCRAPER_ERROR_KIND_LABELS,
+  type SavedSearch,
+  type SavedSearchScope,
+  type ScrapeRun,
+} from '../types'
+
+const INTERVALS = [
+  { minutes: 60, label: 'Toutes les heures' },
+  { minutes: 180, label: 'Toutes les 3 h' },
+  { minutes: 360, label: 'Toutes les 6 h' },
+  { minutes: 720, label: 'Toutes les 12 h' },
+  { minutes: 1440, label: 'Une fois par jour' },
+]
+
+function SearchRuns({ searchId }: { searchId: string }) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['search-runs', searchId],
+    queryFn: () => api.get(`/admin/searches/${searchId}/runs?limit=10`).then(res => res.data),
+  })
+
+  if (isLoading) {
+    return <div className="flex justify-center py-4"><Loader2 className="w-5 h-5 animate-spin text-gray-400" /></div>
+  }
+
+  const runs: ScrapeRun[] = data?.runs || []
+  if (runs.length === 0) {
+    return <p className="text-sm text-gray-500 py-4 text-center">Aucune exécution enregistrée</p>
+  }
+
+  return (
+    <table className="w-full text-xs">
+      <thead className="text-gray-500">
+        <tr>
+          <th className="text-left py-1">Exécution</th>
+          <th className="text-right py-1">Pages</th>
+          <th className="text-right py-1">Posts</th>
+          <th className="text-right py-1">Nouveaux</th>
+          <th className="text-right py-1">Déjà vus</th>
+          <th className="text-right py-1">Appels API</th>
+          <th className="text-right py-1">Durée</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100 text-gray-700">
+        {runs.map(run => (
+          <tr key={run.id} className={run.success ? '' : 'text-red-600'} title={run.error}>
+            <td className="py-1">
+              {new Date(run.startedAt).toLocaleString('fr-FR', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+              {run.trigger === 'MANUAL' && <span className="ml-1 text-gray-400">(manuel)</span>}
+              {!run.success && run.errorKind && <span className="ml-1">— {SCRAPER_ERROR_KIND_LABELS[run.errorKind]}</span>}
+            </td>
+            <td className="text-right py-1">{run.pagesFetched}</td>
+            <td className="text-right py-1">{run.postsFetched}</td>
+            <td className="text-right py-1">{run.newPosts}</td>
+            <td className="text-right py-1">{run.duplicates}</td>
+            <td className="text-right py-1">{run.apiCalls}</td>
+            <td className="text-right py-1">{(run.durationMs / 1000).toFixed(1)} s</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+export default function SavedSearches() {
+  const [query, setQuery] = useState('')
+  const [scope, setScope] = useState<SavedSearchScope>('MONITORED')
+  const [groupId, setGroupId] = useState('')
+  const [intervalMinutes, setIntervalMinutes] = useState(360)
+  const [historyId, setHistoryId] = useState<string | null>(null)
+  const [addError, setAddError] = useState('')
+  const queryClient = useQueryClient()
+
+  const { data: searches = [], isLoading } = useQuery<SavedSearch[]>({
+    queryKey: ['saved-searches'],
+    queryFn: () => api.get('/admin/searches').then(res => res.data),
+  })
+
+  const { data: groups = [] } = useQuery<Array<{ id: string; name: string }>>({
+    queryKey: ['groups'],
+    queryFn: () => api.get('/admin/groups').then(res => res.data),
+  })
+
+  const addSearch = useMutation({
+    mutationFn: () => api.post('/admin/searches', {
+      query: query.trim(),
+      scope,
+      groupId: scope === 'GROUP' ? groupId : undefined,
+      intervalMinutes,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-searches'] })
+      setQuery('')
+      setAddError('')
+    },
+    onError: () => setAddError('Erreur lors de l\'ajout de la recherche.'),
+  })
+
+  const updateSearch = useMutation({
+    mutationFn: ({ id, ...data }: { id: string; isActive?: boolean; intervalMinutes?: number }) =>
+      api.put(`/admin/searches/${id}`, data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['saved-searches'] }),
+  })
+
+  const deleteSearch = useMutation({
+    mutationFn: (id: string) => api.delete(`/admin/searches/${id}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['saved-searches'] }),
+  })
+
+  const runSearch = useMutation({
+    mutationFn: (id: string) => api.post(`/admin/searches/${id}/run`),
+    onSuccess: () => {
+      // The search runs in background
+      setTimeout(() => queryClient.invalidateQueries({ queryKey: ['saved-searches'] }), 10000)
+    },
+  })
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Recherches enregistrées</h1>
+        <p className="text-gray-500 mt-1">
+          Recherches de posts sur des termes précis, en plus du scan complet des groupes. Les posts déjà scannés sont ignorés.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 space-y-3">
+        <div className="flex flex-col md:flex-row gap-3">
+          <input
+            type="text"
+            className="flex-1 px-4 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+            placeholder="Ex: villa à louer Akanda"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+          <select className="px-4 py-2 border border-gray-200 rounded-lg" value={scope} onChange={(e) => setScope(e.target.value as SavedSearchScope)}>
+            {Object.entries(SAVED_SEARCH_SCOPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          {scope === 'GROUP' && (
+            <select className="px-4 py-2 border border-gray-200 rounded-lg" value={groupId} onChange={(e) => setGroupId(e.target.value)}>
+              <option value="">Choisir un groupe</option>
+              {groups.map(group => (
+                <option key={group.id} value={group.id}>{group.name}</option>
+              ))}
+            </select>
+          )}
+          <select className="px-4 py-2 border border-gray-200 rounded-lg" value={intervalMinutes} onChange={(e) => setIntervalMinutes(parseInt(e.target.value))}>
+            {INTERVALS.map(interval => (
+              <option key={interval.minutes} value={interval.minutes}>{interval.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => addSearch.mutate()}
+            disabled={!query.trim() || (scope === 'GROUP' && !groupId) || addSearch.isPending}
+            className="flex items-center justify-center bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Ajouter
+          </button>
+        </div>
+        {scope === 'MONITORED' && (
+          <p className="text-xs text-gray-400">Une recherche par groupe surveillé actif : chaque exécution coûte plusieurs appels RapidAPI.</p>
+        )}
+        {addError && <p className="text-sm text-red-600">{addError}</p>}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+        </div>
+      ) : searches.length === 0 ? (
+        <div className="text-center py-16 text-gray-500 bg-white rounded-xl shadow-sm border border-gray-100">
+          <Search className="w-16 h-16 mx-auto mb-4 text-gray-300" />
+          <p className="text-lg font-medium">Aucune recherche enregistrée</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {searches.map(search => (
+            <div key={search.id} className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+              <div className="flex items-start justify-between">
+                <div>
+                  <h3 className="font-semibold text-gray-900">« {search.query} »</h3>
+                  <p className="text-sm text-gray-500">
+                    {search.scope === 'GROUP' && search.group ? search.group.name : SAVED_SEARCH_SCOPE_LABELS[search.scope]}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <select
+                    className="text-xs px-2 py-1 border border-gray-200 rounded"
+                    value={search.intervalMinutes}
+                    onChange={(e) => updateSearch.mutate({ id: search.id, intervalMinutes: parseInt(e.target.value) })}
+                  >
+                    {INTERVALS.map(interval => (
+                      <option key={interval.minutes} value={interval.minutes}>{interval.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => runSearch.mutate(search.id)}
+                    disabled={runSearch.isPending}
+                    className="flex items-center px-3 py-1.5 bg-emerald-600 text-white text-sm rounded-lg hover:bg-emerald-700 disabled:opacity-50"
+                  >
+                    <Play className="w-4 h-4 mr-1.5" />
+                    Lancer
+                  </button>
+                  <button
+                    onClick={() => updateSearch.mutate({ id: search.id, isActive: !search.isActive })}
+                    title={search.isActive ? 'Désactiver' : 'Activer'}
+                  >
+                    {search.isActive ? <CheckCircle className="w-6 h-6 text-green-500" /> : <XCircle className="w-6 h-6 text-gray-400" />}
+                  </button>
+                </div>
+              </div>
+
+              {search.lastError && (
+                <div className="flex items-center mt-3 p-2 rounded-lg text-xs bg-amber-50 text-amber-800">
+                  <AlertTriangle className="w-3.5 h-3.5 mr-1.5 flex-shrink-0" />
+                  {search.lastError}
+                </div>
+              )}
+
+              <div className="flex items-center justify-between pt-4 mt-4 border-t border-gray-100">
+                <div className="flex items-center gap-4 text-xs text-gray-500">
+                  <span>{search.totalFound} posts trouvés</span>
+                  <span className="text-emerald-700">{search.totalNew} nouveaux</span>
+                  <span>{search.totalDuplicates} déjà scannés</span>
+                  <span>
+                    {search.lastRunAt
+                      ? `Dernière exécution : ${new Date(search.lastRunAt).toLocaleDateString('fr-FR', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}`
+                      : 'Jamais exécutée'}
+                  </span>
+                  {search.isActive && search.nextRunAt && (
+                    <span>Prochaine : {new Date(search.nextRunAt).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}</span>
+                  )}
+                </div>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => setHistoryId(historyId === search.id ? null : search.id)}
+                    className="flex items-center text-xs text-gray-500 hover:text-primary-600"
+                  >
+                    <History className="w-3.5 h-3.5 mr-1" />
+                    Historique
+                  </button>
+                  <button
+                    onClick={() => { if (confirm('Supprimer cette recherche ?')) deleteSearch.mutate(search.id) }}
+                    className="text-red-400 hover:text-red-600 transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              {historyId === search.id && (
+                <div className="mt-3 p-3 bg-gray-50 rounded-lg">
+                  <SearchRuns searchId={search.id} />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,6 +2,7 @@ import { useState } from 'react'
 import { useQuery } from '@tanstack/react-query'
 import { Search, Filter, MoreVertical, Phone, MapPin, Banknote } from 'lucide-react'
 import { api } from '../services/api'
+import { AMENITY_LABELS, PROPERTY_TYPE_LABELS, type Amenity, type PropertyType } from '../types'
 
 export default function Users() {
   const [searchTerm, setSearchTerm] = useState('')
@@ -84,12 +85,29 @@ export default function Users() {
                 <td className="px-6 py-4">
                   <div className="space-y-1">
                     <div className="flex items-center text-sm text-gray-600">
-                      <span>{user.criteria?.propertyType === 'HOUSE' ? '🏠 Maison' : user.criteria?.propertyType === 'APARTMENT' ? '🏢 Appart' : '🏠🏢 Les deux'}</span>
+                      <span>🏠 {user.criteria?.propertyTypes?.length
+                        ? user.criteria.propertyTypes.map((type: PropertyType) => PROPERTY_TYPE_LABELS[type]).join(', ')
+                        : 'Tous types'}</span>
                     </div>
                     <div className="flex items-center text-sm text-gray-600">
                       <Banknote className="w-3 h-3 mr-1" />
                       {user.criteria?.minPrice?.toLocaleString()} - {user.criteria?.maxPrice?.toLocaleString()} FCFA
                     </div>
+                    {user.criteria?.requiredAmenities?.length > 0 && (
+                      <div className="flex items-center text-sm text-gray-600">
+                        <span>🔧 {user.criteria.requiredAmenities.map((amenity: Amenity) => AMENITY_LABELS[amenity]).join(', ')}</span>
+                      </div>
+                    )}
+                    {user.criteria?.maxMoveInCost && (
+                      <div className="flex items-center text-sm text-gray-600">
+                        <span>💳 Entrée max {user.criteria.maxMoveInCost.toLocaleString()} FCFA</span>
+                      </div>
+                    )}
+                    {user.criteria?.excludeAgencies && (
+                      <div className="flex items-center text-sm text-gray-600">
+                        <span>🏢 Sans frais d'agence</span>
+                      </div>
+                    )}
                     <div className="flex items-center text-sm text-gray-600">
                       <MapPin className="w-3 h-3 mr-1" />
                       {user.criteria?.locations?.join(', ') || 'Non défini'}
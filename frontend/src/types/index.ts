@@ -1,11 +1,79 @@
+export type PropertyType =
+  | 'STUDIO' | 'ROOM' | 'APARTMENT' | 'HOUSE' | 'VILLA'
+  | 'DUPLEX' | 'LAND' | 'COMMERCIAL' | 'OFFICE'
+
+export const PROPERTY_TYPE_LABELS: Record<PropertyType, string> = {
+  STUDIO: 'Studio',
+  ROOM: 'Chambre',
+  APARTMENT: 'Appartement',
+  HOUSE: 'Maison',
+  VILLA: 'Villa',
+  DUPLEX: 'Duplex',
+  LAND: 'Terrain',
+  COMMERCIAL: 'Local commercial',
+  OFFICE: 'Bureau',
+}
+
+export type Amenity =
+  | 'BOREHOLE' | 'GENERATOR' | 'AIR_CONDITIONING' | 'GUARD' | 'PARKING' | 'FENCE'
+  | 'TILED_FLOOR' | 'SEPARATE_METER' | 'WATER_HEATER' | 'WATER_TANK' | 'POOL' | 'GARDEN'
+
+export const AMENITY_LABELS: Record<Amenity, string> = {
+  BOREHOLE: 'Forage',
+  GENERATOR: 'Groupe électrogène',
+  AIR_CONDITIONING: 'Climatisation',
+  GUARD: 'Gardien',
+  PARKING: 'Parking',
+  FENCE: 'Clôture',
+  TILED_FLOOR: 'Carrelage',
+  SEPARATE_METER: 'Compteur SEEG séparé',
+  WATER_HEATER: 'Chauffe-eau',
+  WATER_TANK: "Réserve d'eau",
+  POOL: 'Piscine',
+  GARDEN: 'Jardin',
+}
+
+export type ListingStatus = 'AVAILABLE' | 'TAKEN' | 'EXPIRED' | 'REMOVED'
+
+export type RiskReview = 'PENDING' | 'CLEARED' | 'FRAUD'
+
+export interface RiskFactor {
+  code: string
+  label: string
+  weight: number
+}
+
 export interface Listing {
   id: string
   title?: string
   location?: string
   price?: number
+  propertyType?: PropertyType
+  transactionType?: 'RENT' | 'SALE' | 'COMMERCIAL_LEASE'
+  pricePeriod?: 'NIGHT' | 'DAY' | 'WEEK' | 'MONTH' | 'YEAR'
+  depositMonths?: number
+  advanceMonths?: number
+  agencyFee?: number
+  moveInCost?: number
+  amenities?: Amenity[]
   isValid: boolean
+  parentId?: string
+  offerIndex?: number
+  offerCount?: number
+  canonicalId?: string
+  duplicateScore?: number
+  riskScore?: number
+  riskFactors?: RiskFactor[]
+  riskReview?: RiskReview
+  status?: ListingStatus
+  statusReason?: string
+  statusChangedAt?: string
+  originalText?: string
+  contact?: string
+  postUrl?: string
   _count?: {
     matches?: number
+    duplicates?: number
   }
   createdAt?: string
   updatedAt?: string
@@ -19,14 +87,160 @@ export interface User {
   criteria?: {
     minPrice?: number
     maxPrice?: number
+    maxMoveInCost?: number
     location?: string[]
-    propertyType?: string
+    propertyTypes?: PropertyType[]
     minRooms?: number
+    requiredAmenities?: Amenity[]
+    preferredAmenities?: Amenity[]
+    excludeAgencies?: boolean
   }
   lastInteractionAt?: string
   createdAt: string
 }
 
+export type AuthorKind = 'AGENCY' | 'OWNER' | 'UNKNOWN'
+
+export const AUTHOR_KIND_LABELS: Record<AuthorKind, string> = {
+  AGENCY: 'Agence',
+  OWNER: 'Propriétaire',
+  UNKNOWN: 'Indéterminé',
+}
+
+export interface AuthorProfile {
+  id: string
+  authorId: string
+  name?: string
+  totalPosts: number
+  validPosts: number
+  groupIds: string[]
+  phones: string[]
+  firstPostAt?: string
+  lastPostAt?: string
+  kind: AuthorKind
+  kindSignals?: {
+    agencyPosts: number
+    ownerPosts: number
+    phones: number
+    groups: number
+  }
+  kindSetByAdmin: boolean
+}
+
+export type ScraperErrorKind = 'RATE_LIMITED' | 'NOT_FOUND' | 'UPSTREAM' | 'NETWORK' | 'UNKNOWN'
+
+export const SCRAPER_ERROR_KIND_LABELS: Record<ScraperErrorKind, string> = {
+  RATE_LIMITED: 'Limite RapidAPI atteinte',
+  NOT_FOUND: 'Groupe introuvable ou privé',
+  UPSTREAM: 'API de scraping indisponible',
+  NETWORK: 'Erreur réseau',
+  UNKNOWN: 'Erreur inconnue',
+}
+
+export type GroupHealthStatus = 'HEALTHY' | 'WARNING' | 'UNHEALTHY'
+
+export const GROUP_HEALTH_LABELS: Record<GroupHealthStatus, string> = {
+  HEALTHY: 'En bonne santé',
+  WARNING: 'À surveiller',
+  UNHEALTHY: 'En mauvaise santé',
+}
+
+export interface GroupHealthIssue {
+  code: 'INACTIVE' | 'OFF_TOPIC' | 'NO_MATCHES' | 'ERRORS' | 'STALE'
+  label: string
+}
+
+export type CandidateStatus = 'NEW' | 'ADDED' | 'DISMISSED'
+
+export interface DiscoveryQuery {
+  id: string
+  city: string
+  query: string
+  isActive: boolean
+  lastRunAt?: string
+  lastResultCount?: number
+}
+
+export interface GroupCandidate {
+  id: string
+  groupId: string
+  name: string
+  description?: string
+  url?: string
+  membersCount?: number
+  privacy?: string
+  cities: string[]
+  queries: string[]
+  sampledPosts?: number
+  keywordDensity?: number
+  postsPerDay?: number
+  sampleError?: string
+  sampledAt?: string
+  score?: number
+  status: CandidateStatus
+  discoveredAt: string
+}
+
+export type SavedSearchScope = 'GROUP' | 'MONITORED' | 'GLOBAL'
+
+export const SAVED_SEARCH_SCOPE_LABELS: Record<SavedSearchScope, string> = {
+  GROUP: 'Un groupe',
+  MONITORED: 'Groupes surveillés',
+  GLOBAL: 'Tout Facebook',
+}
+
+export interface SavedSearch {
+  id: string
+  query: string
+  scope: SavedSearchScope
+  groupId?: string
+  group?: { name: string }
+  isActive: boolean
+  priority: number
+  intervalMinutes: number
+  lastRunAt?: string
+  nextRunAt?: string
+  lastError?: string
+  totalFound: number
+  totalNew: number
+  totalDuplicates: number
+}
+
+export interface ScrapeRun {
+  id: string
+  groupId?: string
+  savedSearchId?: string
+  group?: { name: string }
+  savedSearch?: { query: string }
+  trigger: 'SCHEDULED' | 'MANUAL'
+  startedAt: string
+  finishedAt: string
+  durationMs: number
+  success: boolean
+  errorKind?: ScraperErrorKind
+  error?: string
+  reachedMark: boolean
+  pagesFetched: number
+  postsFetched: number
+  keywordFiltered: number
+  newPosts: number
+  duplicates: number
+  errors: number
+  apiCalls: number
+}
+
+export interface ScrapeRunDay {
+  date: string
+  runs: number
+  failedRuns: number
+  postsFetched: number
+  keywordFiltered: number
+  newPosts: number
+  duplicates: number
+  errors: number
+  apiCalls: number
+}
+
 export interface FacebookGroup {
   id: string
   facebookId: string